@@ -1,5 +1,13 @@
-import axios, { AxiosInstance } from 'axios';
-import { SportMonksClientOptions } from './types';
+import { QueryDescriptor, QueryParameters, RetryOptions, SportMonksClientOptions } from './types';
+import { FetchTransport, Transport } from './core/transport';
+import { AxiosTransport } from './core/axios-transport';
+import { BaseResource, ResourceOptions } from './core/base-resource';
+import { QueryBuilder } from './core/query-builder';
+import { ValidationError } from './core/errors';
+import { Middleware, MiddlewarePipeline, createLoggingMiddleware } from './core/middleware';
+import { ResponseCache } from './core/cache';
+import { RateLimiter } from './core/rate-limiter';
+import { InflightRequests } from './core/inflight';
 import {
   LeaguesResource,
   TeamsResource,
@@ -11,15 +19,68 @@ import {
   TransfersResource,
   VenuesResource,
   FixturesResource,
-  SchedulesResource
+  SchedulesResource,
+  TimezonesResource,
+  CountriesResource,
+  ContinentsResource,
+  RegionsResource,
+  CitiesResource,
+  TypesResource,
+  SeasonsResource,
+  StagesResource,
+  RoundsResource,
+  SquadsResource,
+  StatisticsResource,
+  TopscorersResource,
+  OddsResource,
+  BookmakersResource,
+  MarketsResource,
+  PredictionsResource,
+  NewsResource,
+  TvStationsResource,
+  ExpectedResource,
+  CommentariesResource,
+  RivalsResource,
+  AccountResource
 } from './resources';
 
+type ResourceConstructor<R extends BaseResource, D extends unknown[]> = new (
+  transport: Transport,
+  basePath: string,
+  includeSeparator: string,
+  retryOptions: RetryOptions | undefined,
+  options: ResourceOptions,
+  ...dependencies: D
+) => R;
+
+/**
+ * Resources of the core API, shared by all sports
+ */
+export interface CoreResources {
+  timezones: TimezonesResource;
+  countries: CountriesResource;
+  continents: ContinentsResource;
+  regions: RegionsResource;
+  cities: CitiesResource;
+  types: TypesResource;
+}
+
 /**
  * Main SportMonks client class
  */
 export class SportMonksClient {
-  private client: AxiosInstance;
+  private transport: Transport;
   private options: SportMonksClientOptions;
+  private middleware: MiddlewarePipeline;
+  private resourceOptions: ResourceOptions;
+  private resources: BaseResource[] = [];
+  private cache?: ResponseCache;
+
+  /**
+   * Rate limit state per entity, learned from API responses
+   * @example client.rateLimits.get('Fixture')?.remaining
+   */
+  public rateLimits: RateLimiter;
 
   // Resource instances
   public leagues: LeaguesResource;
@@ -33,6 +94,33 @@ export class SportMonksClient {
   public venues: VenuesResource;
   public fixtures: FixturesResource;
   public schedules: SchedulesResource;
+  public seasons: SeasonsResource;
+  public stages: StagesResource;
+  public rounds: RoundsResource;
+  public squads: SquadsResource;
+  public statistics: StatisticsResource;
+  public topscorers: TopscorersResource;
+  public odds: OddsResource;
+  public bookmakers: BookmakersResource;
+  public markets: MarketsResource;
+  public predictions: PredictionsResource;
+  public news: NewsResource;
+  public tvStations: TvStationsResource;
+  public expected: ExpectedResource;
+  public commentaries: CommentariesResource;
+  public rivals: RivalsResource;
+
+  /**
+   * Endpoints describing what the API key covers
+   * @example await client.account.canAccess('fixtures', ['lineups'])
+   */
+  public account: AccountResource;
+
+  /**
+   * Core API resources, independent of the configured sport
+   * @example await client.core.timezones.all().get()
+   */
+  public core: CoreResources;
 
   /**
    * Create a new SportMonks API client
@@ -43,118 +131,205 @@ export class SportMonksClient {
       timeout: 30000,
       version: 'v3',
       includeSeparator: ';',
+      sport: 'football',
       ...options
     };
 
-    // Create axios instance
-    this.client = axios.create({
-      baseURL: this.options.baseUrl,
-      timeout: this.options.timeout,
-      params: {
-        api_token: apiKey
-      }
-    });
+    this.transport = options.transport ?? this.createDefaultTransport(apiKey);
+    this.middleware = new MiddlewarePipeline();
+    if (this.options.cache) {
+      this.cache = new ResponseCache(this.options.cache === true ? {} : this.options.cache);
+    }
+    this.rateLimits = new RateLimiter(this.options.rateLimit);
+    this.resourceOptions = {
+      middleware: this.middleware,
+      cache: this.cache,
+      rateLimiter: this.rateLimits,
+      inflight: this.options.dedupe === false ? undefined : new InflightRequests(),
+      baseUrl: this.options.baseUrl!.replace(/\/+$/, '')
+    };
 
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      response => response,
-      error => {
-        // Enhanced error logging in development
-        if (process.env.NODE_ENV === 'development' && error.response) {
-          // eslint-disable-next-line no-console
-          console.error('API Error:', {
-            status: error.response.status,
-            message: error.response.data?.message,
-            url: error.config?.url
-          });
-        }
-        return Promise.reject(error);
-      }
-    );
+    // Log failed requests in development (Workers and browsers have no `process` global)
+    if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
+      this.middleware.use(createLoggingMiddleware());
+    }
 
     // Initialize resources
-    this.leagues = new LeaguesResource(
-      this.client,
-      '/football/leagues',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.teams = new TeamsResource(
-      this.client,
-      '/football/teams',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.players = new PlayersResource(
-      this.client,
-      '/football/players',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.standings = new StandingsResource(
-      this.client,
-      '/football/standings',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.livescores = new LivescoresResource(
-      this.client,
-      '/football/livescores',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.coaches = new CoachesResource(
-      this.client,
-      '/football/coaches',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.referees = new RefereesResource(
-      this.client,
-      '/football/referees',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.transfers = new TransfersResource(
-      this.client,
-      '/football/transfers',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.venues = new VenuesResource(
-      this.client,
-      '/football/venues',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.fixtures = new FixturesResource(
-      this.client,
-      '/football/fixtures',
-      this.options.includeSeparator!,
-      this.options.retry
-    );
-    this.schedules = new SchedulesResource(
-      this.client,
-      '/football/schedules',
-      this.options.includeSeparator!,
-      this.options.retry
+    const sport = `/${this.options.sport}`;
+    this.leagues = this.createResource(LeaguesResource, `${sport}/leagues`);
+    this.teams = this.createResource(TeamsResource, `${sport}/teams`);
+    this.players = this.createResource(PlayersResource, `${sport}/players`);
+    this.standings = this.createResource(StandingsResource, `${sport}/standings`);
+    this.livescores = this.createResource(LivescoresResource, `${sport}/livescores`);
+    this.coaches = this.createResource(CoachesResource, `${sport}/coaches`);
+    this.referees = this.createResource(RefereesResource, `${sport}/referees`);
+    this.transfers = this.createResource(TransfersResource, `${sport}/transfers`);
+    this.venues = this.createResource(VenuesResource, `${sport}/venues`);
+    this.fixtures = this.createResource(FixturesResource, `${sport}/fixtures`);
+    this.schedules = this.createResource(SchedulesResource, `${sport}/schedules`);
+    this.seasons = this.createResource(SeasonsResource, `${sport}/seasons`);
+    this.stages = this.createResource(StagesResource, `${sport}/stages`);
+    this.rounds = this.createResource(RoundsResource, `${sport}/rounds`, this.seasons);
+    this.squads = this.createResource(SquadsResource, `${sport}/squads`);
+    this.statistics = this.createResource(StatisticsResource, `${sport}/statistics`);
+    this.topscorers = this.createResource(TopscorersResource, `${sport}/topscorers`);
+    this.odds = this.createResource(OddsResource, `${sport}/odds`);
+    this.predictions = this.createResource(PredictionsResource, `${sport}/predictions`);
+    this.news = this.createResource(NewsResource, `${sport}/news`);
+    this.tvStations = this.createResource(
+      TvStationsResource,
+      `${sport}/tv-stations`,
+      this.fixtures
     );
+    this.expected = this.createResource(ExpectedResource, `${sport}/expected`);
+    this.commentaries = this.createResource(CommentariesResource, `${sport}/commentaries`);
+    this.rivals = this.createResource(RivalsResource, `${sport}/rivals`);
+
+    // Bookmakers and markets belong to the odds API, shared by all sports
+    this.bookmakers = this.createResource(BookmakersResource, '/odds/bookmakers');
+    this.markets = this.createResource(MarketsResource, '/odds/markets');
+
+    this.core = {
+      timezones: this.createResource(TimezonesResource, '/core/timezones'),
+      countries: this.createResource(CountriesResource, '/core/countries'),
+      continents: this.createResource(ContinentsResource, '/core/continents'),
+      regions: this.createResource(RegionsResource, '/core/regions'),
+      cities: this.createResource(CitiesResource, '/core/cities'),
+      types: this.createResource(TypesResource, '/core/types')
+    };
+    this.account = this.createResource(AccountResource, '/my');
+  }
+
+  /**
+   * Register a middleware that runs around every request
+   * @example
+   * client.use({
+   *   beforeRequest: context => {
+   *     context.headers['X-Request-Id'] = randomUUID();
+   *   },
+   *   afterResponse: (body, context) => {
+   *     metrics.increment(context.basePath);
+   *   }
+   * });
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
   }
 
   /**
-   * Update the API key
+   * Remove a previously registered middleware
+   */
+  eject(middleware: Middleware): boolean {
+    return this.middleware.remove(middleware);
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Update the API key. Cached responses are cleared, as the new key may have another plan.
    */
   setApiKey(apiKey: string): void {
-    if (!this.client.defaults.params) {
-      this.client.defaults.params = {};
-    }
-    this.client.defaults.params.api_token = apiKey;
+    this.transport.setApiKey?.(apiKey);
+    this.account.clearEntitlements();
+    // A failed clear shouldn't fail the key change; clearCache() reports store errors
+    this.cache?.clear().catch(() => undefined);
   }
 
   /**
    * Update the request timeout
    */
   setTimeout(timeout: number): void {
-    this.client.defaults.timeout = timeout;
+    this.transport.setTimeout?.(timeout);
+  }
+
+  /**
+   * Rebuild a query from a descriptor produced by `QueryBuilder.toJSON()`
+   * @example
+   * await queue.add('sync', client.fixtures.byId(18535517).include(['scores']).toJSON());
+   * // Later, in the worker
+   * const fixture = await client.fromJSON<SingleResponse<Fixture>>(job.data).get();
+   */
+  fromJSON<T = unknown>(descriptor: QueryDescriptor): QueryBuilder<T> {
+    if (typeof descriptor?.path !== 'string' || !descriptor.path.startsWith('/')) {
+      throw new ValidationError('Query descriptor must have a path starting with "/"');
+    }
+    const resource = this.resources.find(
+      candidate =>
+        descriptor.path === candidate['basePath'] ||
+        descriptor.path.startsWith(`${candidate['basePath']}/`)
+    );
+    if (!resource) {
+      throw new ValidationError(`No resource serves ${descriptor.path}`);
+    }
+    return QueryBuilder.fromParams<T>(
+      resource,
+      descriptor.path.slice(resource['basePath'].length),
+      descriptor.params ?? {}
+    );
+  }
+
+  /**
+   * Rebuild a query from a URL produced by `QueryBuilder.toURL()`, or any API URL.
+   * The URL can be absolute or a path relative to the base URL; its API token is ignored.
+   * @example
+   * const query = client.fromURL('/football/fixtures/18535517?include=scores');
+   */
+  fromURL<T = unknown>(url: string): QueryBuilder<T> {
+    const baseUrl = this.resourceOptions.baseUrl!;
+    const base = new URL(baseUrl);
+    let parsed: URL;
+    try {
+      parsed = new URL(url.startsWith('/') ? `${baseUrl}${url}` : url);
+    } catch {
+      throw new ValidationError(`Invalid URL: ${url}`);
+    }
+    const basePath = base.pathname.replace(/\/+$/, '');
+    if (parsed.origin !== base.origin || !parsed.pathname.startsWith(`${basePath}/`)) {
+      throw new ValidationError(`${url} is not a URL of ${baseUrl}`);
+    }
+
+    const params: QueryParameters = {};
+    parsed.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+    return this.fromJSON<T>({ path: parsed.pathname.slice(basePath.length), params });
+  }
+
+  /**
+   * Create a resource that shares this client's transport, retry, cache,
+   * rate limiter and middleware stack, passing it the sibling resources it depends on
+   */
+  private createResource<R extends BaseResource, D extends unknown[] = []>(
+    Resource: ResourceConstructor<R, D>,
+    basePath: string,
+    ...dependencies: D
+  ): R {
+    const resource = new Resource(
+      this.transport,
+      basePath,
+      this.options.includeSeparator!,
+      this.options.retry,
+      this.resourceOptions,
+      ...dependencies
+    );
+    this.resources.push(resource);
+    return resource;
+  }
+
+  /**
+   * Create the default transport: axios when it's installed, otherwise the Fetch API
+   */
+  private createDefaultTransport(apiKey: string): Transport {
+    const options = { baseUrl: this.options.baseUrl!, apiKey, timeout: this.options.timeout };
+    if (!AxiosTransport.isAvailable() && typeof fetch === 'function') {
+      return new FetchTransport(options);
+    }
+    return AxiosTransport.create(options);
   }
 }
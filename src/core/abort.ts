@@ -0,0 +1,41 @@
+import { AbortError } from './errors';
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError('The request was aborted');
+  }
+}
+
+/**
+ * Create an AbortController, or undefined on runtimes without one (Node 14)
+ */
+export function createAbortController(): AbortController | undefined {
+  return typeof AbortController === 'undefined' ? undefined : new AbortController();
+}
+
+/**
+ * Sleep for a specified number of milliseconds, rejecting early with an
+ * AbortError when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('The request was aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('The request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,107 @@
+import type { AxiosInstance, AxiosStatic } from 'axios';
+import { TransportError } from './errors';
+import { Transport, TransportRequest, TransportResponse } from './transport';
+
+/**
+ * Options for creating an axios transport
+ */
+export interface AxiosTransportOptions {
+  baseUrl: string;
+  apiKey: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Load axios on first use, so it stays an optional dependency.
+ * Returns undefined when axios isn't installed.
+ */
+function loadAxios(): AxiosStatic | undefined {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require('axios');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Transport adapter around an axios instance.
+ * This is the default transport used by `SportMonksClient` when axios is installed.
+ * @example
+ * const transport = AxiosTransport.create({ baseUrl, apiKey, timeout: 10000 });
+ * // or wrap an existing, pre-configured instance
+ * const transport = new AxiosTransport(myAxiosInstance);
+ */
+export class AxiosTransport implements Transport {
+  constructor(private instance: AxiosInstance) {}
+
+  /**
+   * Create a transport backed by a new axios instance
+   */
+  static create(options: AxiosTransportOptions): AxiosTransport {
+    const axios = loadAxios();
+    if (!axios) {
+      throw new Error('axios is not installed. Install it or pass a `transport` to the client.');
+    }
+    const instance = axios.create({
+      baseURL: options.baseUrl,
+      timeout: options.timeout,
+      params: {
+        api_token: options.apiKey
+      }
+    });
+    return new AxiosTransport(instance);
+  }
+
+  /**
+   * Whether axios is installed
+   */
+  static isAvailable(): boolean {
+    return loadAxios() !== undefined;
+  }
+
+  /**
+   * The underlying axios instance
+   */
+  get axios(): AxiosInstance {
+    return this.instance;
+  }
+
+  async get<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.instance.get(request.path, {
+        params: request.params,
+        headers: request.headers,
+        signal: request.signal,
+        timeout: request.timeout
+      });
+      return {
+        status: response.status,
+        data: response.data as T,
+        headers: response.headers as Record<string, string>
+      };
+    } catch (error) {
+      if (loadAxios()?.isAxiosError(error)) {
+        throw new TransportError(
+          error.message,
+          error.response?.status,
+          error.response?.data,
+          error.code
+        );
+      }
+      throw error;
+    }
+  }
+
+  setApiKey(apiKey: string): void {
+    if (!this.instance.defaults.params) {
+      this.instance.defaults.params = {};
+    }
+    this.instance.defaults.params.api_token = apiKey;
+  }
+
+  setTimeout(timeout: number): void {
+    this.instance.defaults.timeout = timeout;
+  }
+}
@@ -1,23 +1,100 @@
-import axios, { AxiosInstance } from 'axios';
-import { SportMonksError } from './errors';
-import { QueryParameters, RetryOptions } from '../types/common';
+import {
+  AbortError,
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  SportMonksError,
+  SubscriptionError,
+  TimeoutError,
+  TransportError,
+  ValidationError,
+  redactParams
+} from './errors';
+import { Transport } from './transport';
+import { MiddlewarePipeline, RequestContext } from './middleware';
+import { ResponseCache } from './cache';
+import { RateLimiter } from './rate-limiter';
+import { InflightRequests } from './inflight';
+import { createRequestKey } from './request-key';
+import { sleep, throwIfAborted } from './abort';
+import { QueryParameters, RateLimit, RetryOptions } from '../types/common';
+
+/**
+ * Shared services the client injects into every resource
+ */
+export interface ResourceOptions {
+  /** Middleware pipeline run around every request */
+  middleware?: MiddlewarePipeline;
+  /** Response cache, when caching is enabled */
+  cache?: ResponseCache;
+  /** Client-side rate limiter shared by all resources */
+  rateLimiter?: RateLimiter;
+  /** In-flight request tracker, when de-duplication is enabled */
+  inflight?: InflightRequests;
+  /** API base URL, used to build `QueryBuilder.toURL()` */
+  baseUrl?: string;
+}
+
+/**
+ * Per-request options set through the query builder
+ */
+export interface RequestOptions {
+  /** Cache settings for this request, or false to bypass the cache */
+  cache?: { ttl?: number } | false;
+  /** Whether to share identical in-flight requests (default true) */
+  dedupe?: boolean;
+  /** Signal to cancel the request, including retries and rate limit waits */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, overrides the client timeout */
+  timeout?: number;
+  /** Retry settings, merged over the client retry options */
+  retry?: RetryOptions;
+}
+
+/**
+ * Fields of a response or error body read by the SDK
+ */
+interface ResponseBody {
+  message?: string;
+  errors?: unknown;
+  rate_limit?: RateLimit;
+}
+
+/**
+ * Read a body as an object, or an empty one for bodies that aren't objects
+ */
+function asResponseBody(body: unknown): ResponseBody {
+  return typeof body === 'object' && body !== null ? (body as ResponseBody) : {};
+}
 
 /**
  * Base resource class that all resource-specific classes extend
  */
 export abstract class BaseResource {
-  protected client: AxiosInstance;
+  protected transport: Transport;
   protected basePath: string;
   protected includeSeparator: string;
   protected retryOptions: RetryOptions;
+  protected middleware: MiddlewarePipeline;
+  protected cache?: ResponseCache;
+  protected rateLimiter?: RateLimiter;
+  protected inflight?: InflightRequests;
+  protected baseUrl?: string;
 
   constructor(
-    client: AxiosInstance,
+    transport: Transport,
     basePath: string,
     includeSeparator: string = ';',
-    retryOptions: RetryOptions = {}
+    retryOptions: RetryOptions = {},
+    options: ResourceOptions = {}
   ) {
-    this.client = client;
+    this.transport = transport;
+    this.middleware = options.middleware ?? new MiddlewarePipeline();
+    this.cache = options.cache;
+    this.rateLimiter = options.rateLimiter;
+    this.inflight = options.inflight;
+    this.baseUrl = options.baseUrl;
     this.basePath = basePath;
     this.includeSeparator = includeSeparator;
     this.retryOptions = {
@@ -30,108 +107,263 @@ export abstract class BaseResource {
   }
 
   /**
-   * Make a request to the API with optional retry logic
+   * Make a request to the API through the middleware pipeline
+   */
+  protected async request<T>(
+    endpoint: string,
+    params: QueryParameters = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const context: RequestContext = {
+      basePath: this.basePath,
+      endpoint,
+      path: `${this.basePath}${endpoint}`,
+      params: { ...params },
+      headers: {}
+    };
+
+    await this.middleware.runBeforeRequest(context);
+
+    const key = createRequestKey(context.path, context.params, this.includeSeparator);
+
+    let data: T;
+    try {
+      // Requests with their own signal aren't shared, so one caller can't cancel another's,
+      // and neither are cache bypasses, so they can't be answered from another caller's cache hit
+      data =
+        this.inflight && options.dedupe !== false && !options.signal && options.cache !== false
+          ? await this.inflight.run(key, () => this.load<T>(context, key, options))
+          : await this.load<T>(context, key, options);
+    } catch (error) {
+      if (error instanceof SportMonksError && !error.request) {
+        error.request = { path: context.path, params: redactParams(context.params) };
+      }
+      throw await this.middleware.runOnError(error as Error, context);
+    }
+
+    return this.middleware.runAfterResponse(data, context);
+  }
+
+  /**
+   * Load a response from the cache, falling back to the API
+   */
+  private async load<T>(context: RequestContext, key: string, options: RequestOptions): Promise<T> {
+    const cache = options.cache === false ? undefined : this.cache;
+
+    const cached = cache ? await cache.get<T>(key) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await this.send<T>(context, options);
+
+    if (cache) {
+      const ttl = options.cache ? options.cache.ttl : undefined;
+      await cache.set(key, data, cache.ttlFor(this.basePath, ttl));
+    }
+
+    return data;
+  }
+
+  /**
+   * Send a request with optional retry logic
    */
-  protected async request<T>(endpoint: string, params: QueryParameters = {}): Promise<T> {
-    const url = `${this.basePath}${endpoint}`;
+  private async send<T>(context: RequestContext, options: RequestOptions = {}): Promise<T> {
+    const url = context.path;
+    const headers = Object.keys(context.headers).length > 0 ? context.headers : undefined;
+    const { signal, timeout } = options;
+    const retryOptions = this.mergeRetryOptions(options.retry);
     let lastError: any;
 
-    for (let attempt = 0; attempt <= this.retryOptions.maxRetries!; attempt++) {
+    for (let attempt = 0; attempt <= retryOptions.maxRetries!; attempt++) {
+      throwIfAborted(signal);
+      await this.rateLimiter?.acquire(this.basePath, signal);
+
       try {
-        const response = await this.client.get(url, { params });
+        const response = await this.transport.get<T>({
+          path: url,
+          params: context.params,
+          headers,
+          signal,
+          timeout
+        });
 
         // The API returns rate_limit and subscription info in the response body
-        // No need to parse headers or enhance the response
+        this.rateLimiter?.update(this.basePath, asResponseBody(response.data).rate_limit);
 
-        return response.data as T;
+        return response.data;
       } catch (error) {
         lastError = error;
 
-        if (!this.shouldRetry(error, attempt)) {
-          throw this.handleError(error, url);
+        if (signal?.aborted) {
+          throw new AbortError('The request was aborted');
+        }
+
+        if (error instanceof TransportError) {
+          this.rateLimiter?.update(this.basePath, asResponseBody(error.data).rate_limit);
+        }
+
+        if (!this.shouldRetry(error, attempt, retryOptions)) {
+          throw this.handleError(error, context);
         }
 
         // Calculate delay with exponential backoff
         const delay = Math.min(
-          this.retryOptions.retryDelay! * Math.pow(2, attempt),
-          this.retryOptions.maxRetryDelay!
+          retryOptions.retryDelay! * Math.pow(2, attempt),
+          retryOptions.maxRetryDelay!
         );
 
         // If it's a rate limit error, use the reset time if available
-        if (axios.isAxiosError(error) && error.response?.status === 429) {
-          const resetIn = error.response.data?.rate_limit?.resets_in_seconds;
+        if (error instanceof TransportError && error.status === 429) {
+          const resetIn = asResponseBody(error.data).rate_limit?.resets_in_seconds;
           if (resetIn) {
-            await this.sleep(resetIn * 1000);
+            await sleep(resetIn * 1000, signal);
             continue;
           }
         }
 
-        await this.sleep(delay);
+        await sleep(delay, signal);
       }
     }
 
-    throw this.handleError(lastError, url);
+    throw this.handleError(lastError, context);
+  }
+
+  /**
+   * Merge per-request retry settings over the resource defaults
+   */
+  private mergeRetryOptions(overrides?: RetryOptions): RetryOptions {
+    if (!overrides) {
+      return this.retryOptions;
+    }
+    return {
+      maxRetries: overrides.maxRetries ?? this.retryOptions.maxRetries,
+      retryDelay: overrides.retryDelay ?? this.retryOptions.retryDelay,
+      maxRetryDelay: overrides.maxRetryDelay ?? this.retryOptions.maxRetryDelay,
+      retryOnRateLimit: overrides.retryOnRateLimit ?? this.retryOptions.retryOnRateLimit,
+      retryStatusCodes: overrides.retryStatusCodes ?? this.retryOptions.retryStatusCodes
+    };
   }
 
   /**
    * Determine if a request should be retried
    */
-  private shouldRetry(error: any, attempt: number): boolean {
-    if (attempt >= this.retryOptions.maxRetries!) {
+  private shouldRetry(
+    error: any,
+    attempt: number,
+    retryOptions: RetryOptions = this.retryOptions
+  ): boolean {
+    if (attempt >= retryOptions.maxRetries!) {
       return false;
     }
 
-    if (!axios.isAxiosError(error)) {
+    if (!(error instanceof TransportError) || error.code === 'ERR_CANCELED') {
       return false;
     }
 
-    const status = error.response?.status;
+    const status = error.status;
     if (!status) {
       // Network errors should be retried
       return true;
     }
 
     // Check rate limit retry
-    if (status === 429 && this.retryOptions.retryOnRateLimit) {
+    if (status === 429 && retryOptions.retryOnRateLimit) {
       return true;
     }
 
     // Check other status codes
-    return this.retryOptions.retryStatusCodes!.includes(status);
+    return retryOptions.retryStatusCodes!.includes(status);
   }
 
   /**
-   * Handle and transform errors
+   * Handle and transform errors into the matching SportMonksError subclass
    */
-  private handleError(error: any, url: string): SportMonksError {
-    if (axios.isAxiosError(error)) {
-      const errorData = error.response?.data;
-      const status = error.response?.status;
+  private handleError(error: any, context: RequestContext): SportMonksError {
+    const url = context.path;
+    const request = { path: url, params: redactParams(context.params) };
+
+    if (error instanceof TransportError) {
+      const errorData = asResponseBody(error.data);
+      const status = error.status;
+      const apiMessage = errorData.message;
+
+      if (!status) {
+        const message = apiMessage || error.message;
+        if (error.code === 'ERR_CANCELED') {
+          return new AbortError('The request was aborted', { request });
+        }
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          return new TimeoutError(message, { request });
+        }
+        return new NetworkError(message, { request });
+      }
 
       // Better error messages based on status code
-      let message = errorData?.message || error.message;
-      if (status === 404) {
-        message = errorData?.message || `Resource not found: ${url}`;
-      } else if (status === 403) {
-        message =
-          errorData?.message || 'Access forbidden. Check your API key and subscription level.';
-      } else if (status === 429) {
-        const resetIn = errorData?.rate_limit?.resets_in_seconds;
-        message = resetIn
-          ? `Rate limit exceeded. Resets in ${resetIn} seconds.`
-          : 'Rate limit exceeded. Please wait before making more requests.';
+      switch (status) {
+        case 401:
+          return new AuthenticationError(
+            apiMessage || 'Unauthenticated. Check your API key.',
+            apiMessage,
+            errorData.errors,
+            { request }
+          );
+        case 403:
+          return new SubscriptionError(
+            apiMessage || 'Access forbidden. Check your API key and subscription level.',
+            apiMessage,
+            errorData.errors,
+            { request }
+          );
+        case 404:
+          return new NotFoundError(
+            apiMessage || `Resource not found: ${url}`,
+            apiMessage,
+            errorData.errors,
+            { request }
+          );
+        case 429: {
+          const resetIn = errorData.rate_limit?.resets_in_seconds;
+          const message = resetIn
+            ? `Rate limit exceeded. Resets in ${resetIn} seconds.`
+            : 'Rate limit exceeded. Please wait before making more requests.';
+          return new RateLimitError(message, resetIn, apiMessage, { request });
+        }
+        case 400:
+        case 422:
+          return new ValidationError(
+            apiMessage || error.message,
+            status,
+            apiMessage,
+            errorData.errors,
+            { request }
+          );
       }
 
-      return new SportMonksError(message, status, errorData?.message, errorData?.errors);
+      return new SportMonksError(
+        apiMessage || error.message,
+        status,
+        apiMessage,
+        errorData.errors,
+        {
+          request,
+          retryable: status >= 500
+        }
+      );
     }
 
-    return new SportMonksError(error.message || 'Unknown error occurred');
-  }
+    if (error instanceof SportMonksError) {
+      return error;
+    }
 
-  /**
-   * Sleep for a specified number of milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new SportMonksError(
+      error.message || 'Unknown error occurred',
+      undefined,
+      undefined,
+      undefined,
+      {
+        request
+      }
+    );
   }
 }
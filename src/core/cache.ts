@@ -0,0 +1,244 @@
+import { CacheOptions } from '../types/common';
+
+/**
+ * A cached response body with its expiry time
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Expiry time as a Unix timestamp in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses.
+ * Methods may be synchronous or return promises, so stores can wrap
+ * Redis, KV namespaces or any other key/value backend.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  clear(): Promise<void> | void;
+}
+
+/**
+ * Default TTLs in milliseconds per resource, keyed by the last segment of the
+ * resource base path. Fast-moving data gets short TTLs, reference data long ones.
+ */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  livescores: 10 * 1000,
+  odds: 10 * 1000,
+  commentaries: 10 * 1000,
+  fixtures: 60 * 1000,
+  expected: 60 * 1000,
+  predictions: 15 * 60 * 1000,
+  news: 15 * 60 * 1000,
+  standings: 5 * 60 * 1000,
+  statistics: 15 * 60 * 1000,
+  topscorers: 15 * 60 * 1000,
+  transfers: 15 * 60 * 1000,
+  schedules: 60 * 60 * 1000,
+  seasons: 60 * 60 * 1000,
+  stages: 60 * 60 * 1000,
+  rounds: 60 * 60 * 1000,
+  squads: 60 * 60 * 1000,
+  leagues: 60 * 60 * 1000,
+  teams: 60 * 60 * 1000,
+  players: 60 * 60 * 1000,
+  coaches: 60 * 60 * 1000,
+  referees: 60 * 60 * 1000,
+  my: 60 * 60 * 1000,
+  rivals: 24 * 60 * 60 * 1000,
+  'tv-stations': 60 * 60 * 1000,
+  venues: 24 * 60 * 60 * 1000,
+  timezones: 24 * 60 * 60 * 1000,
+  countries: 24 * 60 * 60 * 1000,
+  continents: 24 * 60 * 60 * 1000,
+  regions: 24 * 60 * 60 * 1000,
+  cities: 24 * 60 * 60 * 1000,
+  types: 24 * 60 * 60 * 1000,
+  bookmakers: 24 * 60 * 60 * 1000,
+  markets: 24 * 60 * 60 * 1000
+};
+
+/**
+ * In-memory least-recently-used cache store
+ * @example
+ * const store = new MemoryCacheStore({ maxEntries: 500 });
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Move to the end so it becomes the most recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Values are stored serialized so callers can't mutate cached responses
+    return { value: JSON.parse(entry.value), expiresAt: entry.expiresAt };
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: JSON.stringify(entry.value), expiresAt: entry.expiresAt });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently stored
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File-system cache store, one JSON file per entry.
+ * Only available in Node.js; `fs` is loaded lazily so importing the SDK
+ * elsewhere doesn't fail.
+ * @example
+ * const store = new FileSystemCacheStore({ directory: '.cache/sportmonks' });
+ */
+export class FileSystemCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const fs = await import('fs/promises');
+    try {
+      const contents = await fs.readFile(await this.filePath(key), 'utf8');
+      return JSON.parse(contents) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(await this.filePath(key), JSON.stringify(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(await this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Map a cache key to a safe file name
+   */
+  private async filePath(key: string): Promise<string> {
+    const { createHash } = await import('crypto');
+    const path = await import('path');
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+/**
+ * Response cache shared by all resources of a client
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private defaultTtl: number;
+  private ttls: Record<string, number>;
+  private keyPrefix: string;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore({ maxEntries: options.maxEntries });
+    this.defaultTtl = options.ttl ?? 60 * 1000;
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.resourceTtls };
+    this.keyPrefix = options.keyPrefix ?? '';
+  }
+
+  /**
+   * Resolve the TTL for a resource, preferring a per-query override
+   * @param basePath The resource base path, e.g. `/football/venues`
+   */
+  ttlFor(basePath: string, override?: number): number {
+    if (override !== undefined) {
+      return override;
+    }
+    const resource = basePath.split('/').filter(Boolean).pop() ?? '';
+    return this.ttls[resource] ?? this.defaultTtl;
+  }
+
+  /**
+   * Get a cached value, ignoring expired entries.
+   * Store failures count as a miss so a broken store can't fail requests.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const entry = await this.store.get(this.keyPrefix + key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await this.store.delete(this.keyPrefix + key);
+        return undefined;
+      }
+      return entry.value as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a value for the given TTL in milliseconds.
+   * Store failures are ignored so a broken store can't fail requests.
+   */
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    if (ttl <= 0) {
+      return;
+    }
+    try {
+      await this.store.set(this.keyPrefix + key, { value, expiresAt: Date.now() + ttl });
+    } catch {
+      // The response is still returned, just not cached
+    }
+  }
+
+  /**
+   * Remove a single cached entry
+   */
+  async delete(key: string): Promise<void> {
+    await this.store.delete(this.keyPrefix + key);
+  }
+
+  /**
+   * Remove all cached entries, including those of other clients sharing the store
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
@@ -1,14 +1,176 @@
+import { QueryParameters } from '../types/common';
+
+/**
+ * The request that caused an error, with the API token redacted
+ */
+export interface ErrorRequestContext {
+  path: string;
+  params: QueryParameters;
+}
+
+/**
+ * Extra details attached to SportMonks errors
+ */
+export interface SportMonksErrorOptions {
+  /** The request that failed */
+  request?: ErrorRequestContext;
+  /** Whether sending the same request again may succeed */
+  retryable?: boolean;
+}
+
 /**
  * SportMonks API Error class
  */
 export class SportMonksError extends Error {
+  /** Whether sending the same request again may succeed */
+  public retryable: boolean;
+  /** The request that failed, with the API token redacted */
+  public request?: ErrorRequestContext;
+
   constructor(
     message: string,
     public statusCode?: number,
     public apiMessage?: string,
-    public errors?: any
+    public errors?: any,
+    options: SportMonksErrorOptions = {}
   ) {
     super(message);
     this.name = 'SportMonksError';
+    this.retryable = options.retryable ?? false;
+    this.request = options.request;
+  }
+}
+
+/**
+ * Rate limit exceeded (HTTP 429, or the client-side limiter ran out of quota)
+ */
+export class RateLimitError extends SportMonksError {
+  constructor(
+    message: string,
+    public resetsInSeconds?: number,
+    apiMessage?: string,
+    options: SportMonksErrorOptions = {}
+  ) {
+    super(message, 429, apiMessage, undefined, { retryable: true, ...options });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The requested resource doesn't exist (HTTP 404)
+ */
+export class NotFoundError extends SportMonksError {
+  constructor(
+    message: string,
+    apiMessage?: string,
+    errors?: any,
+    options: SportMonksErrorOptions = {}
+  ) {
+    super(message, 404, apiMessage, errors, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The API token is missing or invalid (HTTP 401)
+ */
+export class AuthenticationError extends SportMonksError {
+  constructor(
+    message: string,
+    apiMessage?: string,
+    errors?: any,
+    options: SportMonksErrorOptions = {}
+  ) {
+    super(message, 401, apiMessage, errors, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The subscription plan doesn't cover the requested entity or include (HTTP 403)
+ */
+export class SubscriptionError extends SportMonksError {
+  constructor(
+    message: string,
+    apiMessage?: string,
+    errors?: any,
+    options: SportMonksErrorOptions = {}
+  ) {
+    super(message, 403, apiMessage, errors, options);
+    this.name = 'SubscriptionError';
+  }
+}
+
+/**
+ * Invalid input, either rejected by the SDK validators before sending
+ * or by the API (HTTP 400/422)
+ */
+export class ValidationError extends SportMonksError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    apiMessage?: string,
+    errors?: any,
+    options: SportMonksErrorOptions = {}
+  ) {
+    super(message, statusCode, apiMessage, errors, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * No response was received from the API
+ */
+export class NetworkError extends SportMonksError {
+  constructor(message: string, options: SportMonksErrorOptions = {}) {
+    super(message, undefined, undefined, undefined, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request timed out before a response was received
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message: string, options: SportMonksErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through an AbortSignal
+ */
+export class AbortError extends SportMonksError {
+  constructor(message: string, options: SportMonksErrorOptions = {}) {
+    super(message, undefined, undefined, undefined, { ...options, retryable: false });
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Error raised by a transport for HTTP and network failures.
+ * `status` is undefined when no response was received.
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public data?: unknown,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Copy request parameters with the API token redacted
+ */
+export function redactParams(params: QueryParameters = {}): QueryParameters {
+  const redacted = { ...params };
+  if ('api_token' in redacted) {
+    redacted.api_token = '[REDACTED]';
   }
+  return redacted;
 }
@@ -0,0 +1,34 @@
+/**
+ * Tracks in-flight requests so identical concurrent requests share one promise
+ */
+export class InflightRequests {
+  private pending = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `fn` unless a request with the same key is already in flight, in which
+   * case its result is shared. Every caller gets its own copy of the result so
+   * one caller can't mutate the response another caller sees.
+   */
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    let shared = this.pending.get(key) as Promise<T> | undefined;
+    if (!shared) {
+      shared = fn().finally(() => {
+        this.pending.delete(key);
+      });
+      this.pending.set(key, shared);
+    }
+
+    return shared.then(copy);
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
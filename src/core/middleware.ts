@@ -0,0 +1,152 @@
+import { QueryParameters } from '../types/common';
+
+/**
+ * Request details shared with every middleware hook
+ */
+export interface RequestContext {
+  /** Resource base path, e.g. `/football/fixtures` */
+  basePath: string;
+  /** Endpoint relative to the resource, e.g. `/date/2024-01-15` */
+  endpoint: string;
+  /** Resolved path sent to the transport (may be rewritten by `beforeRequest`) */
+  path: string;
+  /** Query parameters sent to the API (may be modified by `beforeRequest`) */
+  params: QueryParameters;
+  /** Extra request headers (may be modified by `beforeRequest`) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Runs before the request is sent. May modify `context.path`, `context.params`
+ * and `context.headers` in place.
+ */
+export type BeforeRequestHook = (context: RequestContext) => void | Promise<void>;
+
+/**
+ * Runs after a successful response with the parsed body.
+ * Return a value to replace the body, or nothing to keep it.
+ */
+export type AfterResponseHook = (
+  body: any,
+  context: RequestContext
+) => unknown | void | Promise<unknown | void>;
+
+/**
+ * Runs when a request fails, after retries are exhausted.
+ * Throw to replace the error, or return nothing to let it propagate.
+ */
+export type ErrorHook = (error: Error, context: RequestContext) => void | Promise<void>;
+
+/**
+ * Middleware registered with `client.use()`
+ */
+export interface Middleware {
+  /** Optional name, useful for debugging */
+  name?: string;
+  beforeRequest?: BeforeRequestHook;
+  afterResponse?: AfterResponseHook;
+  onError?: ErrorHook;
+}
+
+/**
+ * Ordered middleware pipeline shared by all resources of a client.
+ *
+ * `beforeRequest` hooks run in registration order, `afterResponse` and `onError`
+ * hooks run in reverse order, so the first registered middleware wraps all others.
+ */
+export class MiddlewarePipeline {
+  private middlewares: Middleware[] = [];
+
+  /**
+   * Register a middleware at the end of the pipeline
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered middleware
+   * @returns true if the middleware was registered
+   */
+  remove(middleware: Middleware): boolean {
+    const index = this.middlewares.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+    this.middlewares.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Number of registered middlewares
+   */
+  get size(): number {
+    return this.middlewares.length;
+  }
+
+  /**
+   * Run all `beforeRequest` hooks
+   */
+  async runBeforeRequest(context: RequestContext): Promise<void> {
+    for (const middleware of this.middlewares) {
+      if (middleware.beforeRequest) {
+        await middleware.beforeRequest(context);
+      }
+    }
+  }
+
+  /**
+   * Run all `afterResponse` hooks and return the (possibly rewritten) body
+   */
+  async runAfterResponse<T>(body: T, context: RequestContext): Promise<T> {
+    let result = body;
+    for (const middleware of [...this.middlewares].reverse()) {
+      if (middleware.afterResponse) {
+        const rewritten = await middleware.afterResponse(result, context);
+        if (rewritten !== undefined) {
+          result = rewritten as T;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run all `onError` hooks and return the error to throw
+   */
+  async runOnError(error: Error, context: RequestContext): Promise<Error> {
+    let current = error;
+    for (const middleware of [...this.middlewares].reverse()) {
+      if (middleware.onError) {
+        try {
+          await middleware.onError(current, context);
+        } catch (replacement) {
+          current = replacement as Error;
+        }
+      }
+    }
+    return current;
+  }
+}
+
+/**
+ * Middleware that logs failed requests to the console.
+ * Registered automatically when `NODE_ENV` is `development`.
+ */
+export function createLoggingMiddleware(logger: Pick<Console, 'error'> = console): Middleware {
+  return {
+    name: 'logging',
+    onError: (error, context) => {
+      const { statusCode, apiMessage } = error as Error & {
+        statusCode?: number;
+        apiMessage?: string;
+      };
+      logger.error('API Error:', {
+        status: statusCode,
+        message: apiMessage ?? error.message,
+        url: context.path
+      });
+    }
+  };
+}
@@ -1,10 +1,41 @@
-import { BaseResource } from './base-resource';
-import { QueryParameters } from '../types/common';
+import { BaseResource, RequestOptions } from './base-resource';
+import { createAbortController, throwIfAborted } from './abort';
+import { redactParams, ValidationError } from './errors';
+import {
+  IterateOptions,
+  Pagination,
+  QueryDescriptor,
+  QueryParameters,
+  ResponseItem,
+  RetryOptions
+} from '../types/common';
+import {
+  FieldIncludes,
+  FieldName,
+  IncludedResponse,
+  IncludeFieldMap,
+  IncludePath,
+  IncludeSpec,
+  RelationFieldName
+} from '../types/includes';
 
 /**
- * Advanced query builder for constructing API requests with method chaining
+ * Shape of a page read by `iterate()`
  */
-export class QueryBuilder<T> {
+type Page = { data?: unknown; pagination?: Pagination };
+
+/**
+ * Advanced query builder for constructing API requests with method chaining.
+ * `I` collects the `include()` names, which become non-optional in the response type, and `F`
+ * the `select()` fields, which narrow it.
+ *
+ * Builders are immutable: every chaining method returns a new builder and leaves the one it
+ * was called on unchanged, so a base query can be shared and extended.
+ * @example
+ * const finished = api.fixtures.all().filter('fixtureStates', 5);
+ * const withScores = finished.include(['scores']); // `finished` is unchanged
+ */
+export class QueryBuilder<T, I extends string = never, F extends string = never> {
   protected resource: BaseResource;
   protected endpoint: string;
   protected queryParams: QueryParameters = {};
@@ -13,6 +44,7 @@ export class QueryBuilder<T> {
   protected filterParams: Record<string, any> = {};
   protected orderParams: string[] = [];
   protected hasParams: string[] = [];
+  protected requestOptions: RequestOptions = {};
 
   constructor(resource: BaseResource, endpoint: string) {
     this.resource = resource;
@@ -20,43 +52,62 @@ export class QueryBuilder<T> {
   }
 
   /**
-   * Include related resources in the response
+   * Include related resources in the response.
+   * Relationship names are checked against the entity's `IncludeMap` entry, and included
+   * relationships become non-optional in the response type. Strings only known at runtime,
+   * e.g. from `SportMonksSyntaxBuilder.buildIncludes()`, are passed through unchecked.
    * @param includes Array of relationship names, dot notation for nested includes, or field selection
    * @example .include(['country', 'seasons.stages'])
    * @example .include(['lineups:player_name', 'events:player_name,related_player_name,minute'])
    * @example .include(['lineups;events;participants']) // Multiple includes with semicolon
    */
-  include(includes: string[] | string): QueryBuilder<T> {
-    if (typeof includes === 'string') {
-      // Handle string input for complex includes
-      this.includeParams.push(includes);
-    } else {
-      this.includeParams = [...new Set([...this.includeParams, ...includes])];
-    }
-    return this;
+  include<K extends IncludeSpec<ResponseItem<T>>>(
+    includes: readonly K[] | K
+  ): QueryBuilder<T, I | K, F>;
+  include<S extends string>(
+    includes: (readonly S[] | S) & (string extends S ? unknown : never)
+  ): QueryBuilder<T, I, F>;
+  include(includes: readonly string[] | string): unknown {
+    // String input is used for complex includes
+    return this.withIncludeParams(typeof includes === 'string' ? [includes] : includes);
   }
 
   /**
-   * Include a relation with specific field selection
+   * Include a relation with specific field selection.
+   * The relation becomes non-optional in the response type, narrowed to the selected fields
+   * and its `id`.
    * @param relation The relation name
    * @param fields Array of fields to select from the relation
    * @example .includeFields('lineups', ['player_name', 'jersey_number'])
    * @example .includeFields('events', ['player_name', 'related_player_name', 'minute'])
    */
-  includeFields(relation: string, fields: string[]): QueryBuilder<T> {
+  includeFields<
+    R extends IncludePath<ResponseItem<T>>,
+    K extends RelationFieldName<ResponseItem<T>, R>
+  >(relation: R, fields: readonly K[]): QueryBuilder<T, I | `${R}:${K}`, F>;
+  includeFields<R extends string, K extends string>(
+    relation: R,
+    fields: readonly K[] & (string extends R | K ? unknown : never)
+  ): QueryBuilder<T, I, F>;
+  includeFields(relation: string, fields: readonly string[]): unknown {
     const fieldsString = fields.join(',');
-    this.includeParams.push(`${relation}:${fieldsString}`);
-    return this;
+    return this.withIncludeParams([`${relation}:${fieldsString}`]);
   }
 
   /**
-   * Select specific fields to include in the response
+   * Select specific fields to include in the response.
+   * The response type is narrowed to the selected fields and `id`.
    * @param fields Array of field names
    * @example .select(['id', 'name', 'country_id'])
    */
-  select(fields: string[]): QueryBuilder<T> {
-    this.selectFields = [...new Set([...this.selectFields, ...fields])];
-    return this;
+  select<K extends FieldName<ResponseItem<T>>>(fields: readonly K[]): QueryBuilder<T, I, F | K>;
+  select<K extends string>(
+    fields: readonly K[] & (string extends K ? unknown : never)
+  ): QueryBuilder<T, I, F>;
+  select(fields: readonly string[]): unknown {
+    return this.derive(query => {
+      query.selectFields = [...new Set([...this.selectFields, ...fields])];
+    });
   }
 
   /**
@@ -65,23 +116,21 @@ export class QueryBuilder<T> {
    * @example .filter('active', true)
    * @example .filter('eventTypes', [15, 16]) // Multiple values
    */
-  filter(key: string, value: any): QueryBuilder<T> {
-    if (Array.isArray(value)) {
+  filter(key: string, value: any): this {
+    return this.derive(query => {
       // Join multiple values with comma for SportMonks syntax
-      this.filterParams[key] = value.join(',');
-    } else {
-      this.filterParams[key] = value;
-    }
-    return this;
+      query.filterParams[key] = Array.isArray(value) ? value.join(',') : value;
+    });
   }
 
   /**
    * Add multiple filters at once
    * @example .filters({ active: true, country_id: 462 })
    */
-  filters(filters: Record<string, any>): QueryBuilder<T> {
-    this.filterParams = { ...this.filterParams, ...filters };
-    return this;
+  filters(filters: Record<string, any>): this {
+    return this.derive(query => {
+      query.filterParams = { ...this.filterParams, ...filters };
+    });
   }
 
   /**
@@ -89,9 +138,10 @@ export class QueryBuilder<T> {
    * @param field Field name with optional - prefix for descending
    * @example .orderBy('name') or .orderBy('-created_at')
    */
-  orderBy(field: string): QueryBuilder<T> {
-    this.orderParams.push(field);
-    return this;
+  orderBy(field: string): this {
+    return this.derive(query => {
+      query.orderParams = [...this.orderParams, field];
+    });
   }
 
   /**
@@ -99,45 +149,217 @@ export class QueryBuilder<T> {
    * @param relationships Array of relationship names
    * @example .has(['seasons'])
    */
-  has(relationships: string[]): QueryBuilder<T> {
-    this.hasParams = [...new Set([...this.hasParams, ...relationships])];
-    return this;
+  has(relationships: string[]): this {
+    return this.derive(query => {
+      query.hasParams = [...new Set([...this.hasParams, ...relationships])];
+    });
   }
 
   /**
    * Set the page number for paginated results
    */
-  page(page: number): QueryBuilder<T> {
-    this.queryParams.page = page;
-    return this;
+  page(page: number): this {
+    return this.derive(query => {
+      query.queryParams = { ...this.queryParams, page };
+    });
   }
 
   /**
    * Set the number of items per page
    */
-  limit(limit: number): QueryBuilder<T> {
-    this.queryParams.limit = limit;
-    return this;
+  limit(limit: number): this {
+    return this.derive(query => {
+      query.queryParams = { ...this.queryParams, limit };
+    });
   }
 
   /**
    * Set the number of items per page (alias for limit)
    */
-  perPage(perPage: number): QueryBuilder<T> {
+  perPage(perPage: number): this {
     return this.limit(perPage);
   }
 
+  /**
+   * Cache the response of this query, optionally with a custom TTL.
+   * Requires caching to be enabled on the client.
+   * @param options.ttl Time to live in milliseconds, overrides the resource default
+   * @example .cache({ ttl: 5 * 60 * 1000 })
+   */
+  cache(options: { ttl?: number } = {}): this {
+    return this.withRequestOptions({ cache: { ...options } });
+  }
+
+  /**
+   * Bypass the response cache for this query
+   * @example await api.livescores.inplay().noCache().get()
+   */
+  noCache(): this {
+    return this.withRequestOptions({ cache: false });
+  }
+
+  /**
+   * Control whether this query shares an identical in-flight request.
+   * De-duplication is on by default; pass false to always send a new request.
+   * @example await api.fixtures.byId(1).dedupe(false).get()
+   */
+  dedupe(enabled: boolean = true): this {
+    return this.withRequestOptions({ dedupe: enabled });
+  }
+
+  /**
+   * Cancel the request (including retries, rate limit waits and `getAll`
+   * pagination) when the signal is aborted. Rejects with an AbortError.
+   * Passing undefined, as pollers do where AbortController is missing, removes the signal.
+   * @example
+   * const controller = new AbortController();
+   * const pending = api.fixtures.byDate('2024-01-15').signal(controller.signal).getAll();
+   * controller.abort();
+   */
+  signal(signal: AbortSignal | undefined): this {
+    return this.withRequestOptions({ signal });
+  }
+
+  /**
+   * Override the client's timeout and retry settings for this query
+   * @example .options({ timeout: 5000, retry: { maxRetries: 0 } })
+   */
+  options(options: { timeout?: number; retry?: RetryOptions }): this {
+    const update: RequestOptions = {};
+    if (options.timeout !== undefined) {
+      update.timeout = options.timeout;
+    }
+    if (options.retry) {
+      update.retry = { ...this.requestOptions.retry, ...options.retry };
+    }
+    return this.withRequestOptions(update);
+  }
+
+  /**
+   * Create an independent copy of this builder
+   * @example
+   * const base = api.fixtures.byDate('2024-01-13').include(['participants']);
+   * const page2 = base.clone().page(2);
+   */
+  clone(): this {
+    const query = Object.create(Object.getPrototypeOf(this)) as this;
+    Object.assign(query, this);
+    query.queryParams = { ...this.queryParams };
+    query.includeParams = [...this.includeParams];
+    query.selectFields = [...this.selectFields];
+    query.filterParams = { ...this.filterParams };
+    query.orderParams = [...this.orderParams];
+    query.hasParams = [...this.hasParams];
+    query.requestOptions = { ...this.requestOptions };
+    return query;
+  }
+
   /**
    * Execute the API request and return the results
    */
-  async get(): Promise<T> {
-    // Build query parameters
+  async get(): Promise<IncludedResponse<T, I, F>> {
+    return this.resource['request']<IncludedResponse<T, I, F>>(
+      this.endpoint,
+      this.buildParams(),
+      this.requestOptions
+    );
+  }
+
+  /**
+   * Describe the request as plain data, e.g. to queue it and replay it later with
+   * `client.fromJSON()`. Request options such as the cache, timeout or signal aren't included.
+   * @example
+   * JSON.stringify(api.fixtures.byId(18535517).include(['scores']));
+   * // '{"path":"/football/fixtures/18535517","params":{"include":"scores"}}'
+   */
+  toJSON(): QueryDescriptor {
+    return { path: `${this.resource['basePath']}${this.endpoint}`, params: this.buildParams() };
+  }
+
+  /**
+   * The URL of the request with the API token redacted, e.g. for logging
+   * @example
+   * api.fixtures.byId(18535517).include(['scores']).toURL();
+   * // 'https://api.sportmonks.com/v3/football/fixtures/18535517?api_token=%5BREDACTED%5D&include=scores'
+   */
+  toURL(): string {
+    const { path, params } = this.toJSON();
+    const search = new URLSearchParams();
+    Object.entries(redactParams({ api_token: '', ...params })).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        search.append(key, String(value));
+      }
+    });
+    return `${this.resource['baseUrl'] ?? ''}${path}?${search.toString()}`;
+  }
+
+  /**
+   * Create a builder from the query parameters of a request, as produced by `toJSON()`.
+   * Parameters are parsed back into includes, filters and so on, so the builder can be extended.
+   * @example QueryBuilder.fromParams(resource, '/18535517', { include: 'scores' })
+   */
+  static fromParams<T>(
+    resource: BaseResource,
+    endpoint: string,
+    params: QueryParameters
+  ): QueryBuilder<T> {
+    const query = new QueryBuilder<T>(resource, endpoint);
+    const list = (value: unknown, separator: string) =>
+      String(value).split(separator).filter(Boolean);
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null) {
+        return;
+      }
+      switch (key) {
+        case 'include':
+          query.includeParams = list(value, resource['includeSeparator']);
+          break;
+        case 'select':
+          query.selectFields = list(value, ',');
+          break;
+        case 'filters':
+          list(value, ';').forEach(filter => {
+            const separator = filter.indexOf(':');
+            if (separator < 1) {
+              throw new ValidationError(`Invalid filter "${filter}", expected name:value`);
+            }
+            query.filterParams[filter.slice(0, separator)] = filter.slice(separator + 1);
+          });
+          break;
+        case 'order':
+          query.orderParams = list(value, ',');
+          break;
+        case 'has':
+          query.hasParams = list(value, ',');
+          break;
+        case 'page':
+        case 'per_page':
+        case 'limit':
+          query.queryParams[key === 'page' ? 'page' : 'limit'] = Number(value);
+          break;
+        case 'api_token':
+          break;
+        default:
+          query.queryParams[key] = value;
+      }
+    });
+
+    return query;
+  }
+
+  /**
+   * Build the query parameters of the request
+   */
+  protected buildParams(): QueryParameters {
+    const params: QueryParameters = { ...this.queryParams };
+
     if (this.includeParams.length > 0) {
-      this.queryParams.include = this.includeParams.join(this.resource['includeSeparator']);
+      params.include = this.includeParams.join(this.resource['includeSeparator']);
     }
 
     if (this.selectFields.length > 0) {
-      this.queryParams.select = this.selectFields.join(',');
+      params.select = this.selectFields.join(',');
     }
 
     // Build filters as a string (API v3 format)
@@ -145,24 +367,24 @@ export class QueryBuilder<T> {
       const filterStrings = Object.entries(this.filterParams).map(([key, value]) => {
         return `${key}:${value}`;
       });
-      this.queryParams.filters = filterStrings.join(';');
+      params.filters = filterStrings.join(';');
     }
 
     if (this.orderParams.length > 0) {
-      this.queryParams.order = this.orderParams.join(',');
+      params.order = this.orderParams.join(',');
     }
 
     if (this.hasParams.length > 0) {
-      this.queryParams.has = this.hasParams.join(',');
+      params.has = this.hasParams.join(',');
     }
 
     // Handle per_page vs limit
-    if (this.queryParams.limit) {
-      this.queryParams.per_page = this.queryParams.limit;
-      delete this.queryParams.limit;
+    if (params.limit) {
+      params.per_page = params.limit;
+      delete params.limit;
     }
 
-    return this.resource['request']<T>(this.endpoint, this.queryParams);
+    return params;
   }
 
   /**
@@ -174,39 +396,174 @@ export class QueryBuilder<T> {
    *   participants: true  // Include all fields
    * })
    */
-  withIncludes(includes: Record<string, string[] | boolean>): QueryBuilder<T> {
+  withIncludes<const W extends IncludeFieldMap<ResponseItem<T>, W>>(
+    includes: W
+  ): QueryBuilder<T, I | FieldIncludes<W>, F>;
+  withIncludes<W extends Record<string, readonly string[] | boolean>>(
+    includes: W & (string extends keyof W ? unknown : never)
+  ): QueryBuilder<T, I, F>;
+  withIncludes(includes: Record<string, readonly string[] | boolean>): unknown {
+    const includeParams: string[] = [];
     Object.entries(includes).forEach(([relation, fields]) => {
       if (fields === true) {
         // Include all fields
-        this.includeParams.push(relation);
+        includeParams.push(relation);
       } else if (Array.isArray(fields) && fields.length > 0) {
         // Include specific fields
-        this.includeParams.push(`${relation}:${fields.join(',')}`);
+        includeParams.push(`${relation}:${fields.join(',')}`);
       }
     });
-    return this;
+    return this.withIncludeParams(includeParams);
   }
 
   /**
    * Get all pages of results (be careful with rate limits!)
+   * @param options Limits and prefetching, as for `iterate()`
    */
-  async getAll(): Promise<T[]> {
-    const results: T[] = [];
-    let currentPage = 1;
-    let hasMore = true;
+  async getAll(options: IterateOptions = {}): Promise<ResponseItem<IncludedResponse<T, I, F>>[]> {
+    const results: ResponseItem<IncludedResponse<T, I, F>>[] = [];
+    for await (const item of this.iterate(options)) {
+      results.push(item);
+    }
+    return results;
+  }
 
-    while (hasMore) {
-      this.page(currentPage);
-      const response = (await this.get()) as any;
+  /**
+   * Stream the items of every page, requesting pages as they are read.
+   * Each page goes through the same retry, rate limit and cancellation handling as `get()`.
+   * @param options.maxPages Stop after this many pages
+   * @param options.maxItems Stop after this many items
+   * @param options.prefetch Pages to request ahead of the one being read. Responses only say
+   * whether more pages follow, so up to this many requests can go past the last page; they are
+   * cancelled once the last page is read.
+   * @example
+   * for await (const fixture of api.fixtures.byDate('2024-01-13').iterate({ prefetch: 2 })) {
+   *   console.log(fixture.name);
+   * }
+   */
+  async *iterate(
+    options: IterateOptions = {}
+  ): AsyncGenerator<ResponseItem<IncludedResponse<T, I, F>>, void, undefined> {
+    const maxPages = this.validateLimit(options.maxPages, 'maxPages') ?? Infinity;
+    const maxItems = this.validateLimit(options.maxItems, 'maxItems') ?? Infinity;
+    const prefetch = options.prefetch ?? 0;
+    if (!Number.isInteger(prefetch) || prefetch < 0) {
+      throw new ValidationError('prefetch must be a non-negative integer');
+    }
 
-      if (response.data) {
-        results.push(...(Array.isArray(response.data) ? response.data : [response.data]));
+    // Prefetched pages are cancelled when iteration stops early, where AbortController exists
+    const outer = this.requestOptions.signal;
+    const controller = prefetch > 0 ? createAbortController() : undefined;
+    const onAbort = () => controller!.abort();
+    if (controller) {
+      if (outer?.aborted) {
+        controller.abort();
       }
+      outer?.addEventListener('abort', onAbort, { once: true });
+    }
+    const requestOptions: RequestOptions = controller
+      ? { ...this.requestOptions, signal: controller.signal }
+      : this.requestOptions;
+
+    const params = this.buildParams();
+    const pending = new Map<number, Promise<Page>>();
+    const request = (page: number) => {
+      const response = this.resource['request']<Page>(
+        this.endpoint,
+        { ...params, page },
+        requestOptions
+      );
+      // Failures surface when the page is read; skipped pages shouldn't reject unhandled
+      response.catch(() => undefined);
+      pending.set(page, response);
+    };
+
+    let lastPage = maxPages;
+    let count = 0;
+    try {
+      for (let page = 1; page <= lastPage; page++) {
+        if (!pending.has(page)) {
+          throwIfAborted(requestOptions.signal);
+          request(page);
+        }
+        const response = await pending.get(page)!;
+        pending.delete(page);
+
+        const items = (
+          response.data === undefined || response.data === null
+            ? []
+            : Array.isArray(response.data)
+              ? response.data
+              : [response.data]
+        ) as ResponseItem<IncludedResponse<T, I, F>>[];
+        const remaining = maxItems - count;
+        const hasMore = Boolean(response.pagination?.has_more) && items.length < remaining;
 
-      hasMore = response.pagination?.has_more || false;
-      currentPage++;
+        if (hasMore) {
+          // Only request the pages still needed to reach maxItems
+          const perPage = response.pagination!.per_page;
+          if (perPage > 0) {
+            lastPage = Math.min(lastPage, page + Math.ceil((remaining - items.length) / perPage));
+          }
+          for (let next = page + 1; next <= Math.min(page + prefetch, lastPage); next++) {
+            if (!pending.has(next)) {
+              throwIfAborted(requestOptions.signal);
+              request(next);
+            }
+          }
+        }
+
+        for (const item of items.slice(0, remaining)) {
+          count++;
+          yield item;
+        }
+
+        if (!hasMore) {
+          return;
+        }
+      }
+    } finally {
+      if (pending.size > 0) {
+        controller?.abort();
+      }
+      outer?.removeEventListener('abort', onAbort);
     }
+  }
 
-    return results;
+  /**
+   * Copy this builder and apply an update to the copy
+   */
+  private derive(update: (query: this) => void): this {
+    const query = this.clone();
+    update(query);
+    return query;
+  }
+
+  /**
+   * Copy this builder with more includes, skipping ones it already has
+   */
+  private withIncludeParams(includes: readonly string[]): this {
+    return this.derive(query => {
+      query.includeParams = [...new Set([...this.includeParams, ...includes])];
+    });
+  }
+
+  /**
+   * Copy this builder with updated request options
+   */
+  private withRequestOptions(options: RequestOptions): this {
+    return this.derive(query => {
+      query.requestOptions = { ...this.requestOptions, ...options };
+    });
+  }
+
+  /**
+   * Check an optional page or item limit
+   */
+  private validateLimit(value: number | undefined, name: string): number | undefined {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new ValidationError(`${name} must be a positive integer`);
+    }
+    return value;
   }
 }
@@ -0,0 +1,133 @@
+import { RateLimitError } from './errors';
+import { sleep } from './abort';
+import { RateLimit, RateLimitOptions } from '../types/common';
+
+/**
+ * Current rate limit state for an entity
+ */
+export interface RateLimitState {
+  /** The entity the quota applies to, e.g. `Fixture` */
+  entity: string;
+  /** Requests left in the current window (last reported value minus requests sent since) */
+  remaining: number;
+  /** When the current window resets, as a Unix timestamp in milliseconds */
+  resetsAt: number;
+}
+
+/**
+ * Default longest wait for a quota reset, so an exhausted bucket fails fast
+ * instead of holding requests for up to an hour
+ */
+const DEFAULT_MAX_WAIT = 60 * 1000;
+
+/**
+ * Client-side token bucket limiter, one bucket per API entity.
+ *
+ * SportMonks reports the remaining quota for the requested entity in the
+ * `rate_limit` block of every response. The limiter learns which entity each
+ * resource path maps to, refills its bucket from those reports and delays
+ * requests once the bucket is empty until the window resets.
+ */
+export class RateLimiter {
+  private states = new Map<string, RateLimitState>();
+  private entities = new Map<string, string>();
+  private reserve: number;
+  private maxWait: number;
+  private throttle: boolean;
+
+  constructor(options: RateLimitOptions | false = {}) {
+    const settings = options || {};
+    this.throttle = options !== false;
+    this.reserve = settings.reserve ?? 0;
+    this.maxWait = settings.maxWait ?? DEFAULT_MAX_WAIT;
+  }
+
+  /**
+   * Get the current state for an entity
+   * @returns undefined when nothing is known or the window has reset
+   * @example client.rateLimits.get('Fixture')?.remaining
+   */
+  get(entity: string): RateLimitState | undefined {
+    const state = this.states.get(entity);
+    if (!state) {
+      return undefined;
+    }
+    if (state.resetsAt <= Date.now()) {
+      this.states.delete(entity);
+      return undefined;
+    }
+    return { ...state };
+  }
+
+  /**
+   * Get the current state for all known entities
+   */
+  all(): RateLimitState[] {
+    return [...this.states.keys()]
+      .map(entity => this.get(entity))
+      .filter((state): state is RateLimitState => state !== undefined);
+  }
+
+  /**
+   * The entity learned for a resource path, if any
+   */
+  entityFor(basePath: string): string | undefined {
+    return this.entities.get(basePath);
+  }
+
+  /**
+   * Take a token for a request to the given resource, waiting for the window
+   * to reset when the bucket is empty
+   * @param signal Cancels the wait with an AbortError
+   * @throws RateLimitError when the wait would exceed `maxWait`
+   */
+  async acquire(basePath: string, signal?: AbortSignal): Promise<void> {
+    const entity = this.entities.get(basePath);
+    if (!entity || !this.throttle) {
+      return;
+    }
+
+    while (this.get(entity)) {
+      const state = this.states.get(entity)!;
+      if (state.remaining > this.reserve) {
+        state.remaining--;
+        return;
+      }
+
+      const wait = state.resetsAt - Date.now();
+      if (wait > this.maxWait) {
+        const resetsIn = Math.ceil(wait / 1000);
+        throw new RateLimitError(
+          `Rate limit for ${entity} exhausted. Resets in ${resetsIn} seconds.`,
+          resetsIn
+        );
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Update the bucket from a response's `rate_limit` block
+   */
+  update(basePath: string, rateLimit?: RateLimit): void {
+    if (!rateLimit?.requested_entity) {
+      return;
+    }
+
+    const entity = rateLimit.requested_entity;
+    this.entities.set(basePath, entity);
+    this.states.set(entity, {
+      entity,
+      remaining: rateLimit.remaining,
+      resetsAt: Date.now() + rateLimit.resets_in_seconds * 1000
+    });
+  }
+
+  /**
+   * Forget all learned state
+   */
+  reset(): void {
+    this.states.clear();
+    this.entities.clear();
+  }
+}
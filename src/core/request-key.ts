@@ -0,0 +1,47 @@
+import { QueryParameters } from '../types/common';
+
+/**
+ * Canonicalize query parameters so equivalent queries compare equal.
+ * Empty values are dropped and includes are de-duplicated and sorted.
+ */
+export function canonicalizeParams(
+  params: QueryParameters = {},
+  includeSeparator: string = ';'
+): QueryParameters {
+  const canonical: QueryParameters = {};
+
+  Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .forEach(key => {
+      canonical[key] = params[key];
+    });
+
+  if (typeof canonical.include === 'string') {
+    canonical.include = [...new Set(canonical.include.split(includeSeparator))]
+      .filter(Boolean)
+      .sort()
+      .join(includeSeparator);
+  }
+
+  return canonical;
+}
+
+/**
+ * Build a key identifying a request by its resolved path and canonical parameters.
+ * Used for response caching and in-flight request de-duplication.
+ * @example
+ * createRequestKey('/football/fixtures/1', { include: 'scores;participants' });
+ * // '/football/fixtures/1?include=participants%3Bscores'
+ */
+export function createRequestKey(
+  path: string,
+  params: QueryParameters = {},
+  includeSeparator: string = ';'
+): string {
+  const canonical = canonicalizeParams(params, includeSeparator);
+  const query = Object.entries(canonical)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+}
@@ -0,0 +1,189 @@
+import { TransportError } from './errors';
+import { QueryParameters } from '../types/common';
+
+/**
+ * A single GET request handed to a transport
+ */
+export interface TransportRequest {
+  /** Path relative to the base URL, e.g. `/football/leagues/8` */
+  path: string;
+  /** Query parameters (the API token is added by the transport) */
+  params: QueryParameters;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, overrides the transport default */
+  timeout?: number;
+}
+
+/**
+ * The raw response returned by a transport
+ */
+export interface TransportResponse<T = unknown> {
+  status: number;
+  data: T;
+  headers?: Record<string, string>;
+}
+
+/**
+ * HTTP transport used by all resources to talk to the API.
+ *
+ * Implementations must resolve with the parsed JSON body for 2xx responses and
+ * reject with a {@link TransportError} for HTTP and network failures, so the
+ * retry and error handling in `BaseResource` works the same for every transport.
+ * Cancelled requests should reject with the code `ERR_CANCELED`.
+ */
+export interface Transport {
+  get<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>>;
+  /** Update the API token used for subsequent requests */
+  setApiKey?(apiKey: string): void;
+  /** Update the request timeout in milliseconds */
+  setTimeout?(timeout: number): void;
+}
+
+/**
+ * Options for the built-in fetch transport
+ */
+export interface FetchTransportOptions {
+  baseUrl: string;
+  apiKey: string;
+  /** Request timeout in milliseconds (0 disables the timeout) */
+  timeout?: number;
+  /** Custom fetch implementation, defaults to the global `fetch` */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport built on the standard Fetch API.
+ * Works in Node 18+, Deno, Bun, edge runtimes and web workers without axios.
+ * @example
+ * const client = new SportMonksClient(apiKey, {
+ *   transport: new FetchTransport({ baseUrl: 'https://api.sportmonks.com/v3', apiKey })
+ * });
+ */
+export class FetchTransport implements Transport {
+  private baseUrl: string;
+  private apiKey: string;
+  private timeout: number;
+  private fetchFn: typeof fetch;
+
+  constructor(options: FetchTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeout = options.timeout ?? 30000;
+
+    const fetchFn = options.fetch ?? (typeof fetch === 'function' ? fetch : undefined);
+    if (!fetchFn) {
+      throw new Error('No fetch implementation available. Pass one via the `fetch` option.');
+    }
+    this.fetchFn = fetchFn;
+  }
+
+  async get<T = unknown>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const url = this.buildUrl(request.path, request.params);
+    const timeout = request.timeout ?? this.timeout;
+    const controller = new AbortController();
+    // Settles once the request is aborted, even if the fetch implementation or the body stream
+    // ignores the signal
+    const aborted = new Promise<never>((_resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('aborted')), {
+        once: true
+      });
+    });
+    aborted.catch(() => undefined);
+    const timer = timeout > 0 ? setTimeout(() => controller.abort(), timeout) : undefined;
+
+    // Forward cancellation from the caller's signal to the request
+    const signal = request.signal;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let response: Response;
+    let data: unknown;
+    try {
+      response = await Promise.race([
+        this.fetchFn(url, {
+          method: 'GET',
+          headers: { Accept: 'application/json', ...request.headers },
+          signal: controller.signal
+        }),
+        aborted
+      ]);
+      // The timeout covers reading the body too
+      data = await Promise.race([this.parseBody(response), aborted]);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new TransportError('canceled', undefined, undefined, 'ERR_CANCELED');
+      }
+      if (controller.signal.aborted) {
+        throw new TransportError(
+          `timeout of ${timeout}ms exceeded`,
+          undefined,
+          undefined,
+          'ETIMEDOUT'
+        );
+      }
+      throw new TransportError((error as Error).message || 'Network error');
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    if (!response.ok) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        response.status,
+        data
+      );
+    }
+
+    return { status: response.status, data: data as T, headers };
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  setTimeout(timeout: number): void {
+    this.timeout = timeout;
+  }
+
+  /**
+   * Build the full request URL including the API token
+   */
+  private buildUrl(path: string, params: QueryParameters): string {
+    const search = new URLSearchParams();
+    search.append('api_token', this.apiKey);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        search.append(key, String(value));
+      }
+    });
+    return `${this.baseUrl}${path}?${search.toString()}`;
+  }
+
+  /**
+   * Parse a JSON body, falling back to undefined for empty or non-JSON bodies
+   */
+  private async parseBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -8,14 +8,57 @@
 // Main client export
 export { SportMonksClient } from './client';
 export { SportMonksClient as default } from './client';
+export type { CoreResources } from './client';
 
 // Type exports
 export * from './types';
 
 // Core exports (for advanced usage)
 export { BaseResource } from './core/base-resource';
+export type { ResourceOptions, RequestOptions } from './core/base-resource';
 export { QueryBuilder } from './core/query-builder';
-export { SportMonksError } from './core/errors';
+export {
+  SportMonksError,
+  RateLimitError,
+  NotFoundError,
+  AuthenticationError,
+  SubscriptionError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  TransportError,
+  redactParams
+} from './core/errors';
+export type { ErrorRequestContext, SportMonksErrorOptions } from './core/errors';
+export { FetchTransport } from './core/transport';
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions
+} from './core/transport';
+export { AxiosTransport } from './core/axios-transport';
+export type { AxiosTransportOptions } from './core/axios-transport';
+export { MiddlewarePipeline, createLoggingMiddleware } from './core/middleware';
+export type {
+  Middleware,
+  RequestContext,
+  BeforeRequestHook,
+  AfterResponseHook,
+  ErrorHook
+} from './core/middleware';
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  FileSystemCacheStore,
+  DEFAULT_CACHE_TTLS
+} from './core/cache';
+export { createRequestKey, canonicalizeParams } from './core/request-key';
+export { InflightRequests } from './core/inflight';
+export type { CacheStore, CacheEntry } from './core/cache';
+export { RateLimiter } from './core/rate-limiter';
+export type { RateLimitState } from './core/rate-limiter';
 
 // Resource exports (for type references)
 export * from './resources';
@@ -0,0 +1,107 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { AccessibleResource, Enrichment, League, PaginatedResponse } from '../types';
+
+/**
+ * Resources and includes the API key has access to
+ */
+interface Entitlements {
+  resources: Set<string>;
+  includes: Set<string>;
+}
+
+/**
+ * Compare names regardless of case and separators, e.g. `tv-stations` and `TV Stations`
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Account resource for the `my` endpoints, describing what the API key covers
+ */
+export class AccountResource extends BaseResource {
+  private entitlements?: Promise<Entitlements>;
+
+  /**
+   * Get the includes available to the API key
+   * @example
+   * const enrichments = await api.account.enrichments().get();
+   */
+  enrichments(): QueryBuilder<PaginatedResponse<Enrichment>> {
+    return new QueryBuilder<PaginatedResponse<Enrichment>>(this, '/enrichments');
+  }
+
+  /**
+   * Get the endpoint groups available to the API key
+   * @example
+   * const resources = await api.account.resources().get();
+   */
+  resources(): QueryBuilder<PaginatedResponse<AccessibleResource>> {
+    return new QueryBuilder<PaginatedResponse<AccessibleResource>>(this, '/resources');
+  }
+
+  /**
+   * Get the leagues available to the API key
+   * @example
+   * const leagues = await api.account.leagues()
+   *   .include(['country'])
+   *   .get();
+   */
+  leagues(): QueryBuilder<PaginatedResponse<League>> {
+    return new QueryBuilder<PaginatedResponse<League>>(this, '/leagues');
+  }
+
+  /**
+   * Check whether the API key covers a resource and, optionally, includes on it.
+   * Nested includes such as `lineups.player` need every segment to be available.
+   * The entitlements are fetched once and reused until `clearEntitlements()` is called.
+   * @param resource The resource name, e.g. `fixtures` or `tv-stations`
+   * @param include Includes to check, e.g. `['lineups', 'xGFixture']`
+   * @example
+   * if (await api.account.canAccess('fixtures', 'xGFixture')) {
+   *   const fixture = await api.fixtures.byId(18535517).include(['xGFixture']).get();
+   * }
+   */
+  async canAccess(resource: string, include: string | string[] = []): Promise<boolean> {
+    const { resources, includes } = await this.loadEntitlements();
+    if (!resources.has(normalizeName(resource))) {
+      return false;
+    }
+
+    const requested = Array.isArray(include) ? include : [include];
+    return requested
+      .flatMap(path => path.split('.'))
+      .every(name => includes.has(normalizeName(name)));
+  }
+
+  /**
+   * Forget the entitlements fetched by `canAccess()`, e.g. after changing the API key
+   */
+  clearEntitlements(): void {
+    this.entitlements = undefined;
+  }
+
+  /**
+   * Fetch the resources and includes of the API key, sharing one fetch between callers
+   */
+  private loadEntitlements(): Promise<Entitlements> {
+    if (!this.entitlements) {
+      const entitlements = Promise.all([
+        this.resources().getAll(),
+        this.enrichments().getAll()
+      ]).then(([resources, enrichments]) => ({
+        resources: new Set(resources.map(item => normalizeName(item.name))),
+        includes: new Set(enrichments.map(item => normalizeName(item.name)))
+      }));
+      // Retry on the next call rather than caching a failure
+      entitlements.catch(() => {
+        if (this.entitlements === entitlements) {
+          this.entitlements = undefined;
+        }
+      });
+      this.entitlements = entitlements;
+    }
+    return this.entitlements;
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Bookmaker, PaginatedResponse, SingleResponse } from '../types';
+
+/**
+ * Bookmakers resource (odds API)
+ */
+export class BookmakersResource extends BaseResource {
+  /**
+   * Get all bookmakers
+   * @example
+   * const bookmakers = await api.bookmakers.all().get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Bookmaker>> {
+    return new QueryBuilder<PaginatedResponse<Bookmaker>>(this, '');
+  }
+
+  /**
+   * Get bookmaker by ID
+   * @param bookmakerId The bookmaker ID
+   * @example
+   * const bookmaker = await api.bookmakers.byId(2).get();
+   */
+  byId(bookmakerId: string | number): QueryBuilder<SingleResponse<Bookmaker>> {
+    return new QueryBuilder<SingleResponse<Bookmaker>>(this, `/${bookmakerId}`);
+  }
+
+  /**
+   * Search bookmakers by name
+   * @param searchQuery The search query
+   * @example
+   * const bookmakers = await api.bookmakers.search('bet365').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Bookmaker>> {
+    return new QueryBuilder<PaginatedResponse<Bookmaker>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+
+  /**
+   * Get the bookmakers offering odds for a fixture
+   * @param fixtureId The fixture ID
+   * @example
+   * const bookmakers = await api.bookmakers.byFixture(18535517).get();
+   */
+  byFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<Bookmaker>> {
+    return new QueryBuilder<PaginatedResponse<Bookmaker>>(this, `/fixtures/${fixtureId}`);
+  }
+}
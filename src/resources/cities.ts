@@ -0,0 +1,44 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, City } from '../types';
+
+/**
+ * Cities resource (core API)
+ */
+export class CitiesResource extends BaseResource {
+  /**
+   * Get all cities
+   * @example
+   * const cities = await api.core.cities.all()
+   *   .include(['country'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<City>> {
+    return new QueryBuilder<PaginatedResponse<City>>(this, '');
+  }
+
+  /**
+   * Get city by ID
+   * @param cityId The city ID
+   * @example
+   * const city = await api.core.cities.byId(60449)
+   *   .include(['country', 'region'])
+   *   .get();
+   */
+  byId(cityId: string | number): QueryBuilder<SingleResponse<City>> {
+    return new QueryBuilder<SingleResponse<City>>(this, `/${cityId}`);
+  }
+
+  /**
+   * Search cities by name
+   * @param searchQuery The search query
+   * @example
+   * const cities = await api.core.cities.search('Manchester').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<City>> {
+    return new QueryBuilder<PaginatedResponse<City>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
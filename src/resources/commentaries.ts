@@ -0,0 +1,54 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Comment, IncludeSpec, PaginatedResponse } from '../types';
+import { sortCommentaries } from '../utils/commentaries';
+
+/**
+ * Commentaries resource with all available endpoints
+ */
+export class CommentariesResource extends BaseResource {
+  /**
+   * Get all commentaries
+   * @example
+   * const commentaries = await api.commentaries.all()
+   *   .include(['player'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Comment>> {
+    return new QueryBuilder<PaginatedResponse<Comment>>(this, '');
+  }
+
+  /**
+   * Get the commentaries of a fixture, in the order the API returns them
+   * @param fixtureId The fixture ID
+   * @example
+   * const commentaries = await api.commentaries.byFixture(18535517)
+   *   .include(['player'])
+   *   .get();
+   */
+  byFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<Comment>> {
+    return new QueryBuilder<PaginatedResponse<Comment>>(this, `/fixtures/${fixtureId}`);
+  }
+
+  /**
+   * Get every commentary line of a fixture, ordered by minute and extra minute
+   * @param fixtureId The fixture ID
+   * @param options.include Includes to request for each line, e.g. `player`
+   * @param options.signal Cancels the request
+   * @example
+   * const lines = await api.commentaries.timeline(18535517);
+   * lines.forEach(line => console.log(line.minute, line.comment));
+   */
+  async timeline(
+    fixtureId: string | number,
+    options: { include?: IncludeSpec<Comment>[]; signal?: AbortSignal } = {}
+  ): Promise<Comment[]> {
+    let query = this.byFixture(fixtureId).include(options.include ?? []);
+    if (options.signal) {
+      query = query.signal(options.signal);
+    }
+
+    const comments = await query.getAll();
+    return sortCommentaries(comments);
+  }
+}
@@ -0,0 +1,44 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Continent } from '../types';
+
+/**
+ * Continents resource (core API)
+ */
+export class ContinentsResource extends BaseResource {
+  /**
+   * Get all continents
+   * @example
+   * const continents = await api.core.continents.all()
+   *   .include(['countries'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Continent>> {
+    return new QueryBuilder<PaginatedResponse<Continent>>(this, '');
+  }
+
+  /**
+   * Get continent by ID
+   * @param continentId The continent ID
+   * @example
+   * const continent = await api.core.continents.byId(1)
+   *   .include(['countries'])
+   *   .get();
+   */
+  byId(continentId: string | number): QueryBuilder<SingleResponse<Continent>> {
+    return new QueryBuilder<SingleResponse<Continent>>(this, `/${continentId}`);
+  }
+
+  /**
+   * Search continents by name
+   * @param searchQuery The search query
+   * @example
+   * const continents = await api.core.continents.search('Europe').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Continent>> {
+    return new QueryBuilder<PaginatedResponse<Continent>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
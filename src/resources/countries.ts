@@ -0,0 +1,44 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Country } from '../types';
+
+/**
+ * Countries resource (core API)
+ */
+export class CountriesResource extends BaseResource {
+  /**
+   * Get all countries
+   * @example
+   * const countries = await api.core.countries.all()
+   *   .include(['continent'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Country>> {
+    return new QueryBuilder<PaginatedResponse<Country>>(this, '');
+  }
+
+  /**
+   * Get country by ID
+   * @param countryId The country ID
+   * @example
+   * const country = await api.core.countries.byId(462)
+   *   .include(['continent', 'regions'])
+   *   .get();
+   */
+  byId(countryId: string | number): QueryBuilder<SingleResponse<Country>> {
+    return new QueryBuilder<SingleResponse<Country>>(this, `/${countryId}`);
+  }
+
+  /**
+   * Search countries by name
+   * @param searchQuery The search query
+   * @example
+   * const countries = await api.core.countries.search('England').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Country>> {
+    return new QueryBuilder<PaginatedResponse<Country>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
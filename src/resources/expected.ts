@@ -0,0 +1,30 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { ExpectedFixture, ExpectedLineup, PaginatedResponse } from '../types';
+
+/**
+ * Expected goals (xG) resource with team and player values per fixture
+ */
+export class ExpectedResource extends BaseResource {
+  /**
+   * Get the expected values of teams per fixture
+   * @example
+   * const xg = await api.expected.byTeam()
+   *   .include(['type', 'participant'])
+   *   .get();
+   */
+  byTeam(): QueryBuilder<PaginatedResponse<ExpectedFixture>> {
+    return new QueryBuilder<PaginatedResponse<ExpectedFixture>>(this, '/fixtures');
+  }
+
+  /**
+   * Get the expected values of players per fixture
+   * @example
+   * const xg = await api.expected.byPlayer()
+   *   .include(['type', 'player'])
+   *   .get();
+   */
+  byPlayer(): QueryBuilder<PaginatedResponse<ExpectedLineup>> {
+    return new QueryBuilder<PaginatedResponse<ExpectedLineup>>(this, '/lineups');
+  }
+}
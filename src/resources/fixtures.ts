@@ -17,7 +17,7 @@ export class FixturesResource extends BaseResource {
    * Get all fixtures
    * @example
    * const fixtures = await api.fixtures.all()
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .page(1)
    *   .get();
    */
@@ -30,7 +30,7 @@ export class FixturesResource extends BaseResource {
    * @param id The fixture ID
    * @example
    * const fixture = await api.fixtures.byId(18535517)
-   *   .include(['localteam', 'visitorteam', 'venue', 'referee'])
+   *   .include(['participants', 'venue', 'referees'])
    *   .get();
    */
   byId(id: string | number): QueryBuilder<SingleResponse<Fixture>> {
@@ -42,7 +42,7 @@ export class FixturesResource extends BaseResource {
    * @param ids Array of fixture IDs
    * @example
    * const fixtures = await api.fixtures.byIds([18535517, 18535518])
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   byIds(ids: (string | number)[]): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -55,7 +55,7 @@ export class FixturesResource extends BaseResource {
    * @param date Date in YYYY-MM-DD format
    * @example
    * const fixtures = await api.fixtures.byDate('2024-01-15')
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   byDate(date: string): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -69,7 +69,7 @@ export class FixturesResource extends BaseResource {
    * @param endDate End date in YYYY-MM-DD format
    * @example
    * const fixtures = await api.fixtures.byDateRange('2024-01-01', '2024-01-31')
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   byDateRange(startDate: string, endDate: string): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -84,7 +84,7 @@ export class FixturesResource extends BaseResource {
    * @param endDate End date in YYYY-MM-DD format
    * @example
    * const fixtures = await api.fixtures.byTeamAndDateRange(1, '2024-01-01', '2024-01-31')
-   *   .include(['localteam', 'visitorteam', 'venue'])
+   *   .include(['participants', 'venue'])
    *   .get();
    */
   byTeamAndDateRange(
@@ -106,7 +106,7 @@ export class FixturesResource extends BaseResource {
    * @param team2Id Second team ID
    * @example
    * const h2h = await api.fixtures.headToHead(1, 14)
-   *   .include(['localteam', 'visitorteam', 'venue'])
+   *   .include(['participants', 'venue'])
    *   .get();
    */
   headToHead(
@@ -124,7 +124,7 @@ export class FixturesResource extends BaseResource {
    * @param searchQuery The search query
    * @example
    * const fixtures = await api.fixtures.search('Manchester United vs Liverpool')
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   search(searchQuery: string): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -140,7 +140,7 @@ export class FixturesResource extends BaseResource {
    * @param marketId The market ID
    * @example
    * const fixtures = await api.fixtures.upcomingByMarket(1)
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   upcomingByMarket(marketId: string | number): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -152,7 +152,7 @@ export class FixturesResource extends BaseResource {
    * @param tvStationId The TV station ID
    * @example
    * const fixtures = await api.fixtures.upcomingByTvStation(1)
-   *   .include(['localteam', 'visitorteam', 'tvstations'])
+   *   .include(['participants', 'tvstations'])
    *   .get();
    */
   upcomingByTvStation(tvStationId: string | number): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -167,7 +167,7 @@ export class FixturesResource extends BaseResource {
    * @param tvStationId The TV station ID
    * @example
    * const fixtures = await api.fixtures.pastByTvStation(1)
-   *   .include(['localteam', 'visitorteam', 'tvstations'])
+   *   .include(['participants', 'tvstations'])
    *   .get();
    */
   pastByTvStation(tvStationId: string | number): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -179,7 +179,7 @@ export class FixturesResource extends BaseResource {
    * Returns fixtures that have received updates within 10 seconds
    * @example
    * const fixtures = await api.fixtures.latest()
-   *   .include(['localteam', 'visitorteam'])
+   *   .include(['participants'])
    *   .get();
    */
   latest(): QueryBuilder<PaginatedResponse<Fixture>> {
@@ -10,3 +10,27 @@ export { TransfersResource } from './transfers';
 export { VenuesResource } from './venues';
 export { FixturesResource } from './fixtures';
 export { SchedulesResource } from './schedules';
+export { TimezonesResource } from './timezones';
+export { CountriesResource } from './countries';
+export { ContinentsResource } from './continents';
+export { RegionsResource } from './regions';
+export { CitiesResource } from './cities';
+export { TypesResource } from './types';
+export { SeasonsResource } from './seasons';
+export { StagesResource } from './stages';
+export { RoundsResource } from './rounds';
+export { SquadsResource } from './squads';
+export { StatisticsResource } from './statistics';
+export type { StatisticParticipant } from './statistics';
+export { TopscorersResource } from './topscorers';
+export { OddsResource } from './odds';
+export { BookmakersResource } from './bookmakers';
+export { MarketsResource } from './markets';
+export { PredictionsResource } from './predictions';
+export { NewsResource } from './news';
+export { TvStationsResource } from './tvstations';
+export { ExpectedResource } from './expected';
+export { CommentariesResource } from './commentaries';
+export { RivalsResource } from './rivals';
+export { AccountResource } from './account';
+export type { BroadcastGuideOptions } from './tvstations';
@@ -61,7 +61,7 @@ export class LeaguesResource extends BaseResource {
    * Get leagues with live fixtures
    * @example
    * const liveLeagues = await api.leagues.live()
-   *   .include(['fixtures'])
+   *   .include(['inplay'])
    *   .get();
    */
   live(): QueryBuilder<PaginatedResponse<League>> {
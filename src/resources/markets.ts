@@ -0,0 +1,40 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Market, PaginatedResponse, SingleResponse } from '../types';
+
+/**
+ * Markets resource (odds API)
+ */
+export class MarketsResource extends BaseResource {
+  /**
+   * Get all betting markets
+   * @example
+   * const markets = await api.markets.all().get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Market>> {
+    return new QueryBuilder<PaginatedResponse<Market>>(this, '');
+  }
+
+  /**
+   * Get market by ID
+   * @param marketId The market ID
+   * @example
+   * const market = await api.markets.byId(1).get(); // Fulltime Result
+   */
+  byId(marketId: string | number): QueryBuilder<SingleResponse<Market>> {
+    return new QueryBuilder<SingleResponse<Market>>(this, `/${marketId}`);
+  }
+
+  /**
+   * Search markets by name
+   * @param searchQuery The search query
+   * @example
+   * const markets = await api.markets.search('Over/Under').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Market>> {
+    return new QueryBuilder<PaginatedResponse<Market>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
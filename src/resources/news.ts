@@ -0,0 +1,68 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { NewsArticle, PaginatedResponse } from '../types';
+
+/**
+ * News resource with pre-match and post-match articles
+ */
+export class NewsResource extends BaseResource {
+  /**
+   * Get all pre-match news articles
+   * @example
+   * const news = await api.news.preMatch()
+   *   .include(['fixture', 'lines'])
+   *   .get();
+   */
+  preMatch(): QueryBuilder<PaginatedResponse<NewsArticle>> {
+    return new QueryBuilder<PaginatedResponse<NewsArticle>>(this, '/pre-match');
+  }
+
+  /**
+   * Get pre-match news articles by season ID
+   * @param seasonId The season ID
+   * @example
+   * const news = await api.news.preMatchBySeason(19735)
+   *   .include(['lines'])
+   *   .get();
+   */
+  preMatchBySeason(seasonId: string | number): QueryBuilder<PaginatedResponse<NewsArticle>> {
+    return new QueryBuilder<PaginatedResponse<NewsArticle>>(this, `/pre-match/seasons/${seasonId}`);
+  }
+
+  /**
+   * Get pre-match news articles for upcoming fixtures
+   * @example
+   * const news = await api.news.upcoming()
+   *   .include(['fixture', 'lines'])
+   *   .get();
+   */
+  upcoming(): QueryBuilder<PaginatedResponse<NewsArticle>> {
+    return new QueryBuilder<PaginatedResponse<NewsArticle>>(this, '/pre-match/upcoming');
+  }
+
+  /**
+   * Get all post-match news articles
+   * @example
+   * const news = await api.news.postMatch()
+   *   .include(['fixture', 'lines'])
+   *   .get();
+   */
+  postMatch(): QueryBuilder<PaginatedResponse<NewsArticle>> {
+    return new QueryBuilder<PaginatedResponse<NewsArticle>>(this, '/post-match');
+  }
+
+  /**
+   * Get post-match news articles by season ID
+   * @param seasonId The season ID
+   * @example
+   * const news = await api.news.postMatchBySeason(19735)
+   *   .include(['lines'])
+   *   .get();
+   */
+  postMatchBySeason(seasonId: string | number): QueryBuilder<PaginatedResponse<NewsArticle>> {
+    return new QueryBuilder<PaginatedResponse<NewsArticle>>(
+      this,
+      `/post-match/seasons/${seasonId}`
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Odd, PaginatedResponse } from '../types';
+
+/**
+ * Odds resource with pre-match and in-play endpoints
+ */
+export class OddsResource extends BaseResource {
+  /**
+   * Get all pre-match odds
+   * @example
+   * const odds = await api.odds.all()
+   *   .include(['market', 'bookmaker'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, '/pre-match');
+  }
+
+  /**
+   * Get pre-match odds by fixture ID
+   * @param fixtureId The fixture ID
+   * @example
+   * const odds = await api.odds.byFixture(18535517)
+   *   .include(['market', 'bookmaker'])
+   *   .get();
+   */
+  byFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, `/pre-match/fixtures/${fixtureId}`);
+  }
+
+  /**
+   * Get pre-match odds of one bookmaker for a fixture
+   * @param fixtureId The fixture ID
+   * @param bookmakerId The bookmaker ID
+   * @example
+   * const odds = await api.odds.byFixtureAndBookmaker(18535517, 2).get();
+   */
+  byFixtureAndBookmaker(
+    fixtureId: string | number,
+    bookmakerId: string | number
+  ): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(
+      this,
+      `/pre-match/fixtures/${fixtureId}/bookmakers/${bookmakerId}`
+    );
+  }
+
+  /**
+   * Get pre-match odds of one market for a fixture
+   * @param fixtureId The fixture ID
+   * @param marketId The market ID
+   * @example
+   * const odds = await api.odds.byFixtureAndMarket(18535517, 1).get();
+   */
+  byFixtureAndMarket(
+    fixtureId: string | number,
+    marketId: string | number
+  ): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(
+      this,
+      `/pre-match/fixtures/${fixtureId}/markets/${marketId}`
+    );
+  }
+
+  /**
+   * Get pre-match odds updated in the last 10 seconds
+   * @example
+   * const odds = await api.odds.latest().get();
+   */
+  latest(): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, '/pre-match/latest');
+  }
+
+  /**
+   * Get all in-play odds
+   * @example
+   * const odds = await api.odds.inplayAll().get();
+   */
+  inplayAll(): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, '/inplay');
+  }
+
+  /**
+   * Get in-play odds by fixture ID
+   * @param fixtureId The fixture ID
+   * @example
+   * const odds = await api.odds.inplayByFixture(18535517).get();
+   */
+  inplayByFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, `/inplay/fixtures/${fixtureId}`);
+  }
+
+  /**
+   * Get in-play odds of one bookmaker for a fixture
+   * @param fixtureId The fixture ID
+   * @param bookmakerId The bookmaker ID
+   * @example
+   * const odds = await api.odds.inplayByFixtureAndBookmaker(18535517, 2).get();
+   */
+  inplayByFixtureAndBookmaker(
+    fixtureId: string | number,
+    bookmakerId: string | number
+  ): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(
+      this,
+      `/inplay/fixtures/${fixtureId}/bookmakers/${bookmakerId}`
+    );
+  }
+
+  /**
+   * Get in-play odds of one market for a fixture
+   * @param fixtureId The fixture ID
+   * @param marketId The market ID
+   * @example
+   * const odds = await api.odds.inplayByFixtureAndMarket(18535517, 1).get();
+   */
+  inplayByFixtureAndMarket(
+    fixtureId: string | number,
+    marketId: string | number
+  ): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(
+      this,
+      `/inplay/fixtures/${fixtureId}/markets/${marketId}`
+    );
+  }
+
+  /**
+   * Get in-play odds updated in the last 10 seconds
+   * @example
+   * const odds = await api.odds.inplayLatest().get();
+   */
+  inplayLatest(): QueryBuilder<PaginatedResponse<Odd>> {
+    return new QueryBuilder<PaginatedResponse<Odd>>(this, '/inplay/latest');
+  }
+}
@@ -0,0 +1,71 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, Predictability, Prediction, ValueBet } from '../types';
+
+/**
+ * Predictions resource with probabilities, value bets and predictability
+ */
+export class PredictionsResource extends BaseResource {
+  /**
+   * Get all probabilities
+   * @example
+   * const predictions = await api.predictions.probabilities()
+   *   .include(['type'])
+   *   .get();
+   */
+  probabilities(): QueryBuilder<PaginatedResponse<Prediction>> {
+    return new QueryBuilder<PaginatedResponse<Prediction>>(this, '/probabilities');
+  }
+
+  /**
+   * Get the probabilities of a fixture
+   * @param fixtureId The fixture ID
+   * @example
+   * const predictions = await api.predictions.probabilitiesByFixture(18535517)
+   *   .include(['type'])
+   *   .get();
+   * const map = toProbabilityMap(predictions.data);
+   */
+  probabilitiesByFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<Prediction>> {
+    return new QueryBuilder<PaginatedResponse<Prediction>>(
+      this,
+      `/probabilities/fixtures/${fixtureId}`
+    );
+  }
+
+  /**
+   * Get all value bets
+   * @example
+   * const valueBets = await api.predictions.valueBets().get();
+   */
+  valueBets(): QueryBuilder<PaginatedResponse<ValueBet>> {
+    return new QueryBuilder<PaginatedResponse<ValueBet>>(this, '/value-bets');
+  }
+
+  /**
+   * Get the value bets of a fixture
+   * @param fixtureId The fixture ID
+   * @example
+   * const valueBets = await api.predictions.valueBetsByFixture(18535517).get();
+   */
+  valueBetsByFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<ValueBet>> {
+    return new QueryBuilder<PaginatedResponse<ValueBet>>(this, `/value-bets/fixtures/${fixtureId}`);
+  }
+
+  /**
+   * Get how well predictions performed for a league
+   * @param leagueId The league ID
+   * @example
+   * const predictability = await api.predictions.predictabilityByLeague(8)
+   *   .include(['type'])
+   *   .get();
+   */
+  predictabilityByLeague(
+    leagueId: string | number
+  ): QueryBuilder<PaginatedResponse<Predictability>> {
+    return new QueryBuilder<PaginatedResponse<Predictability>>(
+      this,
+      `/predictability/leagues/${leagueId}`
+    );
+  }
+}
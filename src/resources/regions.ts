@@ -0,0 +1,44 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Region } from '../types';
+
+/**
+ * Regions resource (core API)
+ */
+export class RegionsResource extends BaseResource {
+  /**
+   * Get all regions
+   * @example
+   * const regions = await api.core.regions.all()
+   *   .include(['country'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Region>> {
+    return new QueryBuilder<PaginatedResponse<Region>>(this, '');
+  }
+
+  /**
+   * Get region by ID
+   * @param regionId The region ID
+   * @example
+   * const region = await api.core.regions.byId(12)
+   *   .include(['country', 'cities'])
+   *   .get();
+   */
+  byId(regionId: string | number): QueryBuilder<SingleResponse<Region>> {
+    return new QueryBuilder<SingleResponse<Region>>(this, `/${regionId}`);
+  }
+
+  /**
+   * Search regions by name
+   * @param searchQuery The search query
+   * @example
+   * const regions = await api.core.regions.search('Greater London').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Region>> {
+    return new QueryBuilder<PaginatedResponse<Region>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
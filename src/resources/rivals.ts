@@ -0,0 +1,31 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, Rival } from '../types';
+
+/**
+ * Rivals resource with all available endpoints
+ */
+export class RivalsResource extends BaseResource {
+  /**
+   * Get all rivalries
+   * @example
+   * const rivals = await api.rivals.all()
+   *   .include(['team', 'rival'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Rival>> {
+    return new QueryBuilder<PaginatedResponse<Rival>>(this, '');
+  }
+
+  /**
+   * Get the rivals of a team
+   * @param teamId The team ID
+   * @example
+   * const rivals = await api.rivals.byTeam(1)
+   *   .include(['rival'])
+   *   .get();
+   */
+  byTeam(teamId: string | number): QueryBuilder<PaginatedResponse<Rival>> {
+    return new QueryBuilder<PaginatedResponse<Rival>>(this, `/teams/${teamId}`);
+  }
+}
@@ -0,0 +1,90 @@
+import { BaseResource, ResourceOptions } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Transport } from '../core/transport';
+import { PaginatedResponse, SingleResponse, Round, RetryOptions } from '../types';
+import { SeasonsResource } from './seasons';
+
+/**
+ * Rounds resource with all available endpoints
+ */
+export class RoundsResource extends BaseResource {
+  constructor(
+    transport: Transport,
+    basePath: string,
+    includeSeparator: string,
+    retryOptions: RetryOptions | undefined,
+    options: ResourceOptions,
+    private seasons: SeasonsResource
+  ) {
+    super(transport, basePath, includeSeparator, retryOptions, options);
+  }
+
+  /**
+   * Get all rounds
+   * @example
+   * const rounds = await api.rounds.all()
+   *   .include(['stage'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Round>> {
+    return new QueryBuilder<PaginatedResponse<Round>>(this, '');
+  }
+
+  /**
+   * Get round by ID
+   * @param roundId The round ID
+   * @example
+   * const round = await api.rounds.byId(274719)
+   *   .include(['fixtures.participants'])
+   *   .get();
+   */
+  byId(roundId: string | number): QueryBuilder<SingleResponse<Round>> {
+    return new QueryBuilder<SingleResponse<Round>>(this, `/${roundId}`);
+  }
+
+  /**
+   * Get all rounds of a season
+   * @param seasonId The season ID
+   * @example
+   * const rounds = await api.rounds.bySeason(19735).get();
+   */
+  bySeason(seasonId: string | number): QueryBuilder<PaginatedResponse<Round>> {
+    return new QueryBuilder<PaginatedResponse<Round>>(this, `/seasons/${seasonId}`);
+  }
+
+  /**
+   * Search rounds by name
+   * @param searchQuery The search query
+   * @example
+   * const rounds = await api.rounds.search('10').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Round>> {
+    return new QueryBuilder<PaginatedResponse<Round>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+
+  /**
+   * Find the current round of a season
+   * @param seasonId The season ID
+   * @returns The round flagged `is_current`, or undefined between rounds or for cup formats
+   * @example
+   * const round = await api.rounds.currentBySeason(19735);
+   */
+  async currentBySeason(seasonId: string | number): Promise<Round | undefined> {
+    const rounds = await this.bySeason(seasonId).getAll();
+    return rounds.find(round => round.is_current);
+  }
+
+  /**
+   * Find the current round of a league's current season
+   * @param leagueId The league ID
+   * @example
+   * const round = await api.rounds.currentByLeague(8);
+   */
+  async currentByLeague(leagueId: string | number): Promise<Round | undefined> {
+    const season = await this.seasons.currentByLeague(leagueId);
+    return season ? this.currentBySeason(season.id) : undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Season } from '../types';
+
+/**
+ * Seasons resource with all available endpoints
+ */
+export class SeasonsResource extends BaseResource {
+  /**
+   * Get all seasons
+   * @example
+   * const seasons = await api.seasons.all()
+   *   .filter('seasonLeagues', 8)
+   *   .include(['league'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Season>> {
+    return new QueryBuilder<PaginatedResponse<Season>>(this, '');
+  }
+
+  /**
+   * Get season by ID
+   * @param seasonId The season ID
+   * @example
+   * const season = await api.seasons.byId(19735)
+   *   .include(['league', 'stages', 'rounds'])
+   *   .get();
+   */
+  byId(seasonId: string | number): QueryBuilder<SingleResponse<Season>> {
+    return new QueryBuilder<SingleResponse<Season>>(this, `/${seasonId}`);
+  }
+
+  /**
+   * Get all seasons a team has played in
+   * @param teamId The team ID
+   * @example
+   * const seasons = await api.seasons.byTeam(1)
+   *   .include(['league'])
+   *   .get();
+   */
+  byTeam(teamId: string | number): QueryBuilder<PaginatedResponse<Season>> {
+    return new QueryBuilder<PaginatedResponse<Season>>(this, `/teams/${teamId}`);
+  }
+
+  /**
+   * Search seasons by name
+   * @param searchQuery The search query, e.g. a year such as `2023`
+   * @example
+   * const seasons = await api.seasons.search('2023/2024').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Season>> {
+    return new QueryBuilder<PaginatedResponse<Season>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+
+  /**
+   * Find the current season of a league
+   * @param leagueId The league ID
+   * @returns The season flagged `is_current`, or undefined if the league has none
+   * @example
+   * const season = await api.seasons.currentByLeague(8);
+   */
+  async currentByLeague(leagueId: string | number): Promise<Season | undefined> {
+    const seasons = await this.all().filter('seasonLeagues', leagueId).limit(50).getAll();
+    return seasons.find(season => season.is_current);
+  }
+}
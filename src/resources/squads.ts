@@ -0,0 +1,85 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { IncludeSpec, PaginatedResponse, SquadPlayer } from '../types';
+import { squadOnDate } from '../utils/squads';
+import { formatDate, validateDateFormat } from '../utils/validators';
+
+/**
+ * Squads resource with all available endpoints
+ */
+export class SquadsResource extends BaseResource {
+  /**
+   * Get the current domestic squad of a team
+   * @param teamId The team ID
+   * @example
+   * const squad = await api.squads.byTeam(1)
+   *   .include(['player', 'position'])
+   *   .get();
+   */
+  byTeam(teamId: string | number): QueryBuilder<PaginatedResponse<SquadPlayer>> {
+    return new QueryBuilder<PaginatedResponse<SquadPlayer>>(this, `/teams/${teamId}`);
+  }
+
+  /**
+   * Get the extended squad of a team, including players registered for other
+   * competitions and players out on loan
+   * @param teamId The team ID
+   * @example
+   * const squad = await api.squads.extendedByTeam(1)
+   *   .include(['player'])
+   *   .get();
+   */
+  extendedByTeam(teamId: string | number): QueryBuilder<PaginatedResponse<SquadPlayer>> {
+    return new QueryBuilder<PaginatedResponse<SquadPlayer>>(this, `/teams/${teamId}/extended`);
+  }
+
+  /**
+   * Get the squad of a team for a season
+   * @param seasonId The season ID
+   * @param teamId The team ID
+   * @example
+   * const squad = await api.squads.bySeasonAndTeam(19735, 1)
+   *   .include(['player'])
+   *   .get();
+   */
+  bySeasonAndTeam(
+    seasonId: string | number,
+    teamId: string | number
+  ): QueryBuilder<PaginatedResponse<SquadPlayer>> {
+    return new QueryBuilder<PaginatedResponse<SquadPlayer>>(
+      this,
+      `/seasons/${seasonId}/teams/${teamId}`
+    );
+  }
+
+  /**
+   * Get the squad of a team as it stood on a given date, based on each
+   * membership's `start` and `end` dates
+   * @param teamId The team ID
+   * @param date A `Date` or a `YYYY-MM-DD` string
+   * @param options.seasonId Read memberships from the season squad instead of the current squad,
+   * for dates in past seasons
+   * @param options.include Includes to request for each membership, e.g. `player`
+   * @example
+   * const squad = await api.squads.onDate(1, '2023-01-14', {
+   *   seasonId: 19735,
+   *   include: ['player']
+   * });
+   */
+  async onDate(
+    teamId: string | number,
+    date: Date | string,
+    options: { seasonId?: string | number; include?: IncludeSpec<SquadPlayer>[] } = {}
+  ): Promise<SquadPlayer[]> {
+    // Check the date before spending a request on it
+    const day = typeof date === 'string' ? date : formatDate(date);
+    validateDateFormat(day);
+
+    const query =
+      options.seasonId !== undefined
+        ? this.bySeasonAndTeam(options.seasonId, teamId)
+        : this.byTeam(teamId);
+    const response = await query.include(options.include ?? []).get();
+    return squadOnDate(response.data, day);
+  }
+}
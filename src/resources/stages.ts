@@ -0,0 +1,56 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Stage } from '../types';
+
+/**
+ * Stages resource with all available endpoints
+ */
+export class StagesResource extends BaseResource {
+  /**
+   * Get all stages
+   * @example
+   * const stages = await api.stages.all()
+   *   .include(['league', 'season'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Stage>> {
+    return new QueryBuilder<PaginatedResponse<Stage>>(this, '');
+  }
+
+  /**
+   * Get stage by ID
+   * @param stageId The stage ID
+   * @example
+   * const stage = await api.stages.byId(77457866)
+   *   .include(['rounds', 'fixtures'])
+   *   .get();
+   */
+  byId(stageId: string | number): QueryBuilder<SingleResponse<Stage>> {
+    return new QueryBuilder<SingleResponse<Stage>>(this, `/${stageId}`);
+  }
+
+  /**
+   * Get all stages of a season
+   * @param seasonId The season ID
+   * @example
+   * const stages = await api.stages.bySeason(19735)
+   *   .include(['rounds'])
+   *   .get();
+   */
+  bySeason(seasonId: string | number): QueryBuilder<PaginatedResponse<Stage>> {
+    return new QueryBuilder<PaginatedResponse<Stage>>(this, `/seasons/${seasonId}`);
+  }
+
+  /**
+   * Search stages by name
+   * @param searchQuery The search query
+   * @example
+   * const stages = await api.stages.search('Regular Season').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Stage>> {
+    return new QueryBuilder<PaginatedResponse<Stage>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import {
+  AggregatedStatistic,
+  PaginatedResponse,
+  PlayerStatisticType,
+  SeasonStatistic
+} from '../types';
+
+/**
+ * Participants that have season statistics
+ */
+export type StatisticParticipant = 'players' | 'teams' | 'coaches' | 'referees';
+
+const DETAIL_TYPE_FILTERS: Record<StatisticParticipant, string> = {
+  players: 'playerStatisticDetailTypes',
+  teams: 'teamStatisticDetailTypes',
+  coaches: 'coachStatisticDetailTypes',
+  referees: 'refereeStatisticDetailTypes'
+};
+
+const SEASON_FILTERS: Record<StatisticParticipant, string> = {
+  players: 'playerStatisticSeasons',
+  teams: 'teamStatisticSeasons',
+  coaches: 'coachStatisticSeasons',
+  referees: 'refereeStatisticSeasons'
+};
+
+/**
+ * Statistics resource with all available endpoints
+ */
+export class StatisticsResource extends BaseResource {
+  /**
+   * Get the season statistics of a participant across all seasons
+   * @param participant The participant kind
+   * @param participantId The player, team, coach or referee ID
+   * @param types Only return details of these statistic types
+   * @example
+   * const stats = await api.statistics.byParticipant('players', 580, [PlayerStatisticType.GOALS])
+   *   .include(['details.type'])
+   *   .get();
+   */
+  byParticipant(
+    participant: StatisticParticipant,
+    participantId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<SeasonStatistic>> {
+    const query = new QueryBuilder<PaginatedResponse<SeasonStatistic>>(
+      this,
+      `/seasons/${participant}/${participantId}`
+    );
+    return types?.length ? query.filter(DETAIL_TYPE_FILTERS[participant], types) : query;
+  }
+
+  /**
+   * Get the statistics of a participant for one season
+   * @param participant The participant kind
+   * @param participantId The player, team, coach or referee ID
+   * @param seasonId The season ID
+   * @param types Only return details of these statistic types
+   * @example
+   * const stats = await api.statistics.bySeason('teams', 1, 19735)
+   *   .include(['details'])
+   *   .get();
+   */
+  bySeason(
+    participant: StatisticParticipant,
+    participantId: string | number,
+    seasonId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<SeasonStatistic>> {
+    return this.byParticipant(participant, participantId, types).filter(
+      SEASON_FILTERS[participant],
+      seasonId
+    );
+  }
+
+  /**
+   * Get the aggregated statistics of a stage
+   * @param stageId The stage ID
+   * @param types Only return statistics of these types
+   * @example
+   * const stats = await api.statistics.byStage(77457866).include(['type']).get();
+   */
+  byStage(
+    stageId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<AggregatedStatistic>> {
+    const query = new QueryBuilder<PaginatedResponse<AggregatedStatistic>>(
+      this,
+      `/stages/${stageId}`
+    );
+    return types?.length ? query.filter('stageStatisticTypes', types) : query;
+  }
+
+  /**
+   * Get the aggregated statistics of a round
+   * @param roundId The round ID
+   * @param types Only return statistics of these types
+   * @example
+   * const stats = await api.statistics.byRound(274719).include(['type']).get();
+   */
+  byRound(
+    roundId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<AggregatedStatistic>> {
+    const query = new QueryBuilder<PaginatedResponse<AggregatedStatistic>>(
+      this,
+      `/rounds/${roundId}`
+    );
+    return types?.length ? query.filter('roundStatisticTypes', types) : query;
+  }
+}
@@ -1,6 +1,8 @@
 import { BaseResource } from '../core/base-resource';
 import { QueryBuilder } from '../core/query-builder';
-import { PaginatedResponse, SingleResponse, Team } from '../types';
+import { IncludeSpec, PaginatedResponse, Sidelined, SingleResponse, Team } from '../types';
+import { sidelinedOnDate } from '../utils/sidelined';
+import { formatDate, validateDateFormat } from '../utils/validators';
 
 /**
  * Teams resource for SportMonks Football API
@@ -51,4 +53,27 @@ export class TeamsResource extends BaseResource {
     const encodedQuery = encodeURIComponent(searchQuery);
     return new QueryBuilder<PaginatedResponse<Team>>(this, `/search/${encodedQuery}`);
   }
+
+  /**
+   * Get the players of a team that are injured or suspended on a date, e.g. a fixture date
+   * @param teamId - The team ID
+   * @param date - A `Date` or a `YYYY-MM-DD` string
+   * @param options.include - Includes to request for each sidelined record, e.g. `type`
+   * @returns The sidelined records active on the date, with their `player`
+   */
+  async unavailableOn(
+    teamId: string | number,
+    date: Date | string,
+    options: { include?: IncludeSpec<Sidelined>[] } = {}
+  ): Promise<Sidelined[]> {
+    // Check the date before spending a request on it
+    const day = typeof date === 'string' ? date : formatDate(date);
+    validateDateFormat(day);
+
+    const includes = ['player', ...(options.include ?? [])].map(
+      (include): IncludeSpec<Team> => `sidelined.${include}`
+    );
+    const response = await this.byId(teamId).include(includes).get();
+    return sidelinedOnDate(response.data.sidelined ?? [], day);
+  }
 }
@@ -0,0 +1,18 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse } from '../types';
+
+/**
+ * Timezones resource (core API)
+ */
+export class TimezonesResource extends BaseResource {
+  /**
+   * Get all timezones supported by the `timezone` query parameter
+   * @example
+   * const timezones = await api.core.timezones.all().get();
+   * // timezones.data: ['Africa/Abidjan', 'Africa/Accra', ...]
+   */
+  all(): QueryBuilder<PaginatedResponse<string>> {
+    return new QueryBuilder<PaginatedResponse<string>>(this, '');
+  }
+}
@@ -0,0 +1,42 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, PlayerStatisticType, Topscorer } from '../types';
+
+/**
+ * Topscorers resource with all available endpoints
+ */
+export class TopscorersResource extends BaseResource {
+  /**
+   * Get the topscorers of a season
+   * @param seasonId The season ID
+   * @param types Only return leaderboards of these statistic types, e.g. goals or assists
+   * @example
+   * const scorers = await api.topscorers.bySeason(19735, [PlayerStatisticType.GOALS])
+   *   .include(['player', 'participant'])
+   *   .get();
+   */
+  bySeason(
+    seasonId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<Topscorer>> {
+    const query = new QueryBuilder<PaginatedResponse<Topscorer>>(this, `/seasons/${seasonId}`);
+    return types?.length ? query.filter('seasonTopscorerTypes', types) : query;
+  }
+
+  /**
+   * Get the topscorers of a stage
+   * @param stageId The stage ID
+   * @param types Only return leaderboards of these statistic types
+   * @example
+   * const scorers = await api.topscorers.byStage(77457866, [PlayerStatisticType.ASSISTS])
+   *   .include(['player'])
+   *   .get();
+   */
+  byStage(
+    stageId: string | number,
+    types?: PlayerStatisticType[]
+  ): QueryBuilder<PaginatedResponse<Topscorer>> {
+    const query = new QueryBuilder<PaginatedResponse<Topscorer>>(this, `/stages/${stageId}`);
+    return types?.length ? query.filter('stageTopscorerTypes', types) : query;
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseResource } from '../core/base-resource';
 import { QueryBuilder } from '../core/query-builder';
+import { ValidationError } from '../core/errors';
 import { PaginatedResponse, SingleResponse, Transfer } from '../types';
 
 /**
@@ -70,7 +71,7 @@ export class TransfersResource extends BaseResource {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
     if (!dateRegex.test(startDate) || !dateRegex.test(endDate)) {
-      throw new Error('Dates must be in YYYY-MM-DD format');
+      throw new ValidationError('Dates must be in YYYY-MM-DD format');
     }
 
     return new QueryBuilder<PaginatedResponse<Transfer>>(this, `/between/${startDate}/${endDate}`);
@@ -0,0 +1,108 @@
+import { BaseResource, ResourceOptions } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { Transport } from '../core/transport';
+import { ValidationError } from '../core/errors';
+import {
+  Fixture,
+  IncludeSpec,
+  PaginatedResponse,
+  RetryOptions,
+  SingleResponse,
+  TvStation
+} from '../types';
+import { BroadcastChannel, broadcastGuide } from '../utils/broadcasts';
+import { FixturesResource } from './fixtures';
+
+/**
+ * Options for building a broadcast guide
+ */
+export interface BroadcastGuideOptions {
+  /** First day of the window, in YYYY-MM-DD format */
+  startDate: string;
+  /** Last day of the window, in YYYY-MM-DD format */
+  endDate: string;
+  /** Only keep broadcasts in this country */
+  countryId?: number;
+  /** Only keep broadcasts by these TV stations */
+  tvStationIds?: number[];
+  /** Extra fixture includes, e.g. `participants` */
+  include?: IncludeSpec<Fixture>[];
+}
+
+/**
+ * TV stations resource with all available endpoints
+ */
+export class TvStationsResource extends BaseResource {
+  constructor(
+    transport: Transport,
+    basePath: string,
+    includeSeparator: string,
+    retryOptions: RetryOptions | undefined,
+    options: ResourceOptions,
+    private fixtures: FixturesResource
+  ) {
+    super(transport, basePath, includeSeparator, retryOptions, options);
+  }
+
+  /**
+   * Get all TV stations
+   * @example
+   * const stations = await api.tvStations.all()
+   *   .include(['countries'])
+   *   .get();
+   */
+  all(): QueryBuilder<PaginatedResponse<TvStation>> {
+    return new QueryBuilder<PaginatedResponse<TvStation>>(this, '');
+  }
+
+  /**
+   * Get TV station by ID
+   * @param tvStationId The TV station ID
+   * @example
+   * const station = await api.tvStations.byId(2)
+   *   .include(['countries'])
+   *   .get();
+   */
+  byId(tvStationId: string | number): QueryBuilder<SingleResponse<TvStation>> {
+    return new QueryBuilder<SingleResponse<TvStation>>(this, `/${tvStationId}`);
+  }
+
+  /**
+   * Get the TV stations broadcasting a fixture
+   * @param fixtureId The fixture ID
+   * @example
+   * const stations = await api.tvStations.byFixture(18535517).get();
+   */
+  byFixture(fixtureId: string | number): QueryBuilder<PaginatedResponse<TvStation>> {
+    return new QueryBuilder<PaginatedResponse<TvStation>>(this, `/fixtures/${fixtureId}`);
+  }
+
+  /**
+   * Build a broadcast guide for a country or a set of TV stations.
+   * Fetches every fixture in the date window with its TV stations and groups them per channel,
+   * each channel in kick-off order.
+   * @example
+   * const guide = await api.tvStations.guide({
+   *   startDate: '2024-01-13',
+   *   endDate: '2024-01-14',
+   *   countryId: 462,
+   *   include: ['participants']
+   * });
+   * guide.forEach(channel => console.log(channel.tvstation?.name, channel.fixtures.length));
+   */
+  async guide(options: BroadcastGuideOptions): Promise<BroadcastChannel[]> {
+    if (options.countryId === undefined && !options.tvStationIds?.length) {
+      throw new ValidationError('A broadcast guide needs a country ID or TV station IDs');
+    }
+
+    const fixtures = await this.fixtures
+      .byDateRange(options.startDate, options.endDate)
+      .include(['tvstations.tvstation', ...(options.include ?? [])])
+      .getAll();
+
+    return broadcastGuide(fixtures, {
+      countryId: options.countryId,
+      tvStationIds: options.tvStationIds
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseResource } from '../core/base-resource';
+import { QueryBuilder } from '../core/query-builder';
+import { PaginatedResponse, SingleResponse, Type } from '../types';
+
+/**
+ * Types resource (core API)
+ */
+export class TypesResource extends BaseResource {
+  /**
+   * Get all types
+   * @example
+   * const types = await api.core.types.all().get();
+   */
+  all(): QueryBuilder<PaginatedResponse<Type>> {
+    return new QueryBuilder<PaginatedResponse<Type>>(this, '');
+  }
+
+  /**
+   * Get type by ID
+   * @param typeId The type ID
+   * @example
+   * const type = await api.core.types.byId(52).get();
+   */
+  byId(typeId: string | number): QueryBuilder<SingleResponse<Type>> {
+    return new QueryBuilder<SingleResponse<Type>>(this, `/${typeId}`);
+  }
+
+  /**
+   * Search types by name
+   * @param searchQuery The search query
+   * @example
+   * const types = await api.core.types.search('Goal').get();
+   */
+  search(searchQuery: string): QueryBuilder<PaginatedResponse<Type>> {
+    return new QueryBuilder<PaginatedResponse<Type>>(
+      this,
+      `/search/${encodeURIComponent(searchQuery)}`
+    );
+  }
+
+  /**
+   * Get the types available per entity, e.g. the statistic types used by fixtures
+   * @example
+   * const entities = await api.core.types.entities().get();
+   * const fixtureTypes = entities.data.Fixture;
+   */
+  entities(): QueryBuilder<SingleResponse<Record<string, Type[]>>> {
+    return new QueryBuilder<SingleResponse<Record<string, Type[]>>>(this, '/entities');
+  }
+}
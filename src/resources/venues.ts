@@ -1,5 +1,6 @@
 import { BaseResource } from '../core/base-resource';
 import { QueryBuilder } from '../core/query-builder';
+import { ValidationError } from '../core/errors';
 import { PaginatedResponse, SingleResponse, Venue } from '../types';
 
 /**
@@ -54,7 +55,7 @@ export class VenuesResource extends BaseResource {
    */
   search(searchQuery: string): QueryBuilder<PaginatedResponse<Venue>> {
     if (searchQuery.length < 3) {
-      throw new Error('Search query must be at least 3 characters long');
+      throw new ValidationError('Search query must be at least 3 characters long');
     }
     return new QueryBuilder<PaginatedResponse<Venue>>(
       this,
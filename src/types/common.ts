@@ -1,3 +1,6 @@
+import type { Transport } from '../core/transport';
+import type { CacheStore } from '../core/cache';
+
 /**
  * Retry configuration options
  */
@@ -14,6 +17,32 @@ export interface RetryOptions {
   retryStatusCodes?: number[];
 }
 
+/**
+ * Response cache configuration options
+ */
+export interface CacheOptions {
+  /** Storage backend, defaults to an in-memory LRU store */
+  store?: CacheStore;
+  /** Maximum entries for the default in-memory store */
+  maxEntries?: number;
+  /** Default TTL in milliseconds for resources without a specific TTL */
+  ttl?: number;
+  /** TTL overrides in milliseconds keyed by resource name, e.g. `{ venues: 86400000 }` */
+  resourceTtls?: Record<string, number>;
+  /** Prefix for every cache key, so clients with different API keys can share a store */
+  keyPrefix?: string;
+}
+
+/**
+ * Client-side rate limiter options
+ */
+export interface RateLimitOptions {
+  /** Number of requests per entity to keep in reserve before delaying (default 0) */
+  reserve?: number;
+  /** Maximum time in milliseconds to wait for a quota reset before failing (default 60000) */
+  maxWait?: number;
+}
+
 /**
  * Configuration options for the SportMonks client
  */
@@ -24,10 +53,26 @@ export interface SportMonksClientOptions {
   timeout?: number;
   /** API version */
   version?: string;
+  /**
+   * Sport namespace for the sport-specific resources, e.g. `football` (default).
+   * Core resources such as timezones always use the `core` namespace.
+   */
+  sport?: string;
   /** Include query parameter separator */
   includeSeparator?: string;
   /** Retry configuration */
   retry?: RetryOptions;
+  /**
+   * HTTP transport to use instead of the default one (axios when installed, otherwise fetch).
+   * When set, `baseUrl` and `timeout` must be configured on the transport itself.
+   */
+  transport?: Transport;
+  /** Response caching, disabled by default. Pass `true` to use the defaults. */
+  cache?: CacheOptions | boolean;
+  /** Client-side rate limiting based on the `rate_limit` block, or false to only track it */
+  rateLimit?: RateLimitOptions | false;
+  /** Share identical concurrent requests instead of sending duplicates (default true) */
+  dedupe?: boolean;
 }
 
 /**
@@ -90,6 +135,27 @@ export interface SingleResponse<T> {
   timezone?: string;
 }
 
+/**
+ * Item type of a response, e.g. `Fixture` for `PaginatedResponse<Fixture>`
+ */
+export type ResponseItem<T> =
+  T extends PaginatedResponse<infer U> ? U : T extends SingleResponse<infer U> ? U : never;
+
+/**
+ * Options for iterating over the pages of a query
+ */
+export interface IterateOptions {
+  /** Stop after this many pages */
+  maxPages?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /**
+   * Number of pages to request ahead of the one being read, once the first page shows
+   * there are more. Defaults to 0, one page at a time.
+   */
+  prefetch?: number;
+}
+
 /**
  * Query parameters supported by most endpoints
  */
@@ -104,3 +170,13 @@ export interface QueryParameters {
   per_page?: number;
   [key: string]: any;
 }
+
+/**
+ * A request as plain data, produced by `QueryBuilder.toJSON()`
+ */
+export interface QueryDescriptor {
+  /** Request path, e.g. `/football/fixtures/18535517` */
+  path: string;
+  /** Query parameters as sent to the API, without the API token */
+  params: QueryParameters;
+}
@@ -1,10 +1,17 @@
-import { LeagueType, LeagueSubType } from './enums';
+import {
+  ExpectedType,
+  LeagueType,
+  LeagueSubType,
+  PlayerStatisticType,
+  PredictionType
+} from './enums';
 
 /**
  * Country entity (partial, for relationships)
  */
 export interface Country {
   id: number;
+  continent_id?: number;
   name: string;
   official_name: string;
   fifa_name: string | null;
@@ -14,6 +21,61 @@ export interface Country {
   longitude: string | null;
   borders: string[];
   image_path: string | null;
+  // Relationships
+  continent?: Continent;
+  leagues?: League[];
+  regions?: Region[];
+}
+
+/**
+ * Continent entity
+ */
+export interface Continent {
+  id: number;
+  name: string;
+  code: string;
+  // Relationships
+  countries?: Country[];
+}
+
+/**
+ * Region entity (a subdivision of a country)
+ */
+export interface Region {
+  id: number;
+  country_id: number;
+  name: string;
+  // Relationships
+  country?: Country;
+  cities?: City[];
+}
+
+/**
+ * City entity
+ */
+export interface City {
+  id: number;
+  country_id: number;
+  region_id: number;
+  geonameid: number | null;
+  name: string;
+  latitude: string | null;
+  longitude: string | null;
+  // Relationships
+  country?: Country;
+  region?: Region;
+}
+
+/**
+ * Type entity, resolves the `type_id` fields of other entities
+ */
+export interface Type {
+  id: number;
+  name: string;
+  code: string;
+  developer_name: string;
+  model_type: string;
+  stat_group: string | null;
 }
 
 /**
@@ -33,10 +95,15 @@ export interface League {
   category: number;
   has_jerseys: boolean;
   // Relationships (when included)
+  sport?: Sport;
   country?: Country;
   seasons?: Season[];
   currentSeason?: Season;
   stages?: Stage[];
+  latest?: Fixture[];
+  upcoming?: Fixture[];
+  inplay?: Fixture[];
+  today?: Fixture[];
 }
 
 /**
@@ -55,6 +122,17 @@ export interface Season {
   ending_at: string;
   standings_recalculated_at: string;
   games_in_current_week: boolean;
+  // Relationships
+  sport?: Sport;
+  league?: League;
+  teams?: Team[];
+  stages?: Stage[];
+  rounds?: Round[];
+  currentStage?: Stage;
+  fixtures?: Fixture[];
+  groups?: Group[];
+  statistics?: AggregatedStatistic[];
+  topscorers?: Topscorer[];
 }
 
 /**
@@ -75,6 +153,18 @@ export interface Stage {
   ending_at: string | null;
   games_in_current_week: boolean;
   tie_breaker_rule_id: number | null;
+  // Relationships
+  sport?: Sport;
+  league?: League;
+  season?: Season;
+  type?: Type;
+  rounds?: Round[];
+  currentRound?: Round;
+  groups?: Group[];
+  fixtures?: Fixture[];
+  aggregates?: Aggregate[];
+  topscorers?: Topscorer[];
+  statistics?: AggregatedStatistic[];
 }
 
 /**
@@ -94,15 +184,28 @@ export interface Team {
   placeholder: boolean;
   last_played_at: string | null;
   // Relationships
+  sport?: Sport;
   country?: Country;
   venue?: Venue;
   squad?: SquadMember[];
   coach?: Coach;
+  coaches?: TeamCoach[];
+  players?: SquadMember[];
   latest?: Fixture[];
+  upcoming?: Fixture[];
+  seasons?: Season[];
+  activeSeasons?: Season[];
+  statistics?: SeasonStatistic[];
+  trophies?: Trophy[];
+  socials?: Social[];
+  rankings?: Ranking[];
   player?: Player[];
   team?: Team[];
   detailedPosition?: Position[];
   transfers?: Transfer[];
+  sidelined?: Sidelined[];
+  sidelinedHistory?: Sidelined[];
+  rivals?: Team[];
 }
 
 /**
@@ -128,13 +231,21 @@ export interface Player {
   date_of_birth: string | null;
   gender: string;
   // Relationships
+  sport?: Sport;
   country?: Country;
   nationality?: Country;
+  city?: City;
   position?: Position;
   detailedposition?: Position;
+  teams?: SquadMember[];
   statistics?: PlayerStatistic[];
+  latest?: Lineup[];
+  lineups?: Lineup[];
   transfers?: Transfer[];
+  pendingTransfers?: Transfer[];
   trophies?: Trophy[];
+  metadata?: Metadata[];
+  sidelined?: Sidelined[];
 }
 
 /**
@@ -181,14 +292,219 @@ export interface Fixture {
   lineups?: Lineup[];
   bench?: Lineup[];
   comments?: Comment[];
-  tvstations?: TvStation[];
-  odds?: any;
-  predictions?: any;
-  valuebet?: any;
+  tvstations?: FixtureTvStation[];
+  odds?: Odd[];
+  inplayOdds?: Odd[];
+  predictions?: Prediction[];
+  valuebet?: ValueBet[];
+  prematchNews?: NewsArticle[];
+  postmatchNews?: NewsArticle[];
+  xGFixture?: ExpectedFixture[];
+  expectedLineups?: ExpectedLineup[];
+  premiumOdds?: Odd[];
+  referees?: FixtureReferee[];
+  coaches?: Coach[];
+  formations?: Formation[];
+  sidelined?: Sidelined[];
+  timeline?: Event[];
+  trends?: Trend[];
+  pressure?: Pressure[];
+  ballCoordinates?: BallCoordinate[];
+  weatherReport?: WeatherReport;
+  metadata?: Metadata[];
   localteam_id?: number;
   visitorteam_id?: number;
 }
 
+/**
+ * News article about a fixture, published before or after the match
+ */
+export interface NewsArticle {
+  id: number;
+  fixture_id: number;
+  league_id: number;
+  title: string;
+  type: 'prematch' | 'postmatch';
+  // Relationships
+  lines?: NewsLine[];
+  fixture?: Fixture;
+  league?: League;
+}
+
+/**
+ * A paragraph of a news article
+ */
+export interface NewsLine {
+  id: number;
+  article_id: number;
+  text: string;
+  type: string;
+}
+
+/**
+ * Expected value, e.g. the xG of a team or player
+ */
+export interface ExpectedValue {
+  value: number;
+}
+
+/**
+ * Expected values of a team in a fixture
+ */
+export interface ExpectedFixture {
+  id: number;
+  fixture_id: number;
+  type_id: ExpectedType | number;
+  participant_id: number;
+  data: ExpectedValue;
+  location: 'home' | 'away';
+  // Relationships
+  type?: Type;
+  participant?: Team;
+  fixture?: Fixture;
+}
+
+/**
+ * Expected values of a player in a fixture lineup
+ */
+export interface ExpectedLineup {
+  id: number;
+  fixture_id: number;
+  player_id: number;
+  team_id: number;
+  lineup_id: number;
+  type_id: ExpectedType | number;
+  data: ExpectedValue;
+  // Relationships
+  type?: Type;
+  player?: Player;
+  team?: Team;
+  fixture?: Fixture;
+}
+
+/**
+ * Bookmaker entity
+ */
+export interface Bookmaker {
+  id: number;
+  legacy_id: number | null;
+  name: string;
+}
+
+/**
+ * Betting market entity, e.g. Fulltime Result or Over/Under
+ */
+export interface Market {
+  id: number;
+  legacy_id: number | null;
+  name: string;
+  developer_name: string;
+  has_winning_calculations: boolean;
+}
+
+/**
+ * Odd entity, a single price of a bookmaker for one outcome of a market.
+ * Pre-match and in-play odds share this shape.
+ */
+export interface Odd {
+  id: number;
+  fixture_id: number;
+  market_id: number;
+  bookmaker_id: number;
+  label: string;
+  value: string;
+  name: string | null;
+  sort_order: number | null;
+  market_description: string;
+  probability: string;
+  dp3: string;
+  fractional: string;
+  american: string;
+  winning: boolean | null;
+  stopped: boolean;
+  total: string | null;
+  handicap: string | null;
+  participants: string | null;
+  created_at: string;
+  updated_at?: string | null;
+  original_label: string | null;
+  latest_bookmaker_update: string;
+  /** In-play odds only: whether the bookmaker has suspended the market */
+  suspended?: boolean;
+  // Relationships
+  fixture?: Fixture;
+  market?: Market;
+  bookmaker?: Bookmaker;
+}
+
+/**
+ * Probabilities of a prediction in percent. Which keys are set depends on the type:
+ * `home`/`draw`/`away` for result types, `yes`/`no` for over/under and both teams to score,
+ * `scores` for correct score.
+ */
+export interface PredictionValues {
+  home?: number;
+  draw?: number;
+  away?: number;
+  yes?: number;
+  no?: number;
+  draw_home?: number;
+  draw_away?: number;
+  home_away?: number;
+  scores?: Record<string, number>;
+}
+
+/**
+ * Prediction entity with the probabilities of one prediction type for a fixture
+ */
+export interface Prediction {
+  id: number;
+  fixture_id: number;
+  type_id: PredictionType | number;
+  predictions: PredictionValues;
+  // Relationships
+  type?: Type;
+  fixture?: Fixture;
+}
+
+/**
+ * Value bet advice
+ */
+export interface ValueBetPrediction {
+  bet: string;
+  bookmaker: string;
+  fair_odd: number;
+  odd: number;
+  stake: number;
+  is_value: boolean;
+}
+
+/**
+ * Value bet entity
+ */
+export interface ValueBet {
+  id: number;
+  fixture_id: number;
+  type_id: number;
+  predictions: ValueBetPrediction;
+  // Relationships
+  type?: Type;
+  fixture?: Fixture;
+}
+
+/**
+ * How well predictions performed for a league, per prediction type
+ */
+export interface Predictability {
+  id: number;
+  league_id: number;
+  type_id: number;
+  data: Record<string, number | string>;
+  // Relationships
+  type?: Type;
+  league?: League;
+}
+
 /**
  * Squad member
  */
@@ -203,7 +519,34 @@ export interface SquadPlayer {
   end: string | null;
   captain: boolean;
   jersey_number: number;
+  // Relationships
+  player?: Player;
+  team?: Team;
+  position?: Position;
+  detailedposition?: Position;
+  transfer?: Transfer;
+}
+
+/**
+ * Injury or suspension keeping a player out of the team
+ */
+export interface Sidelined {
+  id: number;
+  player_id: number;
+  type_id: number;
+  team_id: number;
+  season_id: number;
+  category: 'injury' | 'suspension';
+  start_date: string;
+  /** Null while the player is still out */
+  end_date: string | null;
+  games_missed: number | null;
+  completed: boolean;
+  // Relationships
   player?: Player;
+  type?: Type;
+  team?: Team;
+  season?: Season;
 }
 
 /**
@@ -230,10 +573,16 @@ export interface Standing {
   goals_against?: number;
   goal_difference?: number;
   // Relationships
+  sport?: Sport;
   participant?: Team;
   league?: League;
   season?: Season;
+  stage?: Stage;
+  group?: Group;
+  round?: Round;
+  rule?: StandingRuleEntry;
   details?: StandingDetail[];
+  form?: StandingForm[];
   // Home/Away splits (if included)
   home?: StandingStatistics;
   away?: StandingStatistics;
@@ -258,6 +607,31 @@ export interface StandingStatistics {
   games_played?: number;
 }
 
+/**
+ * Rule a standing position qualifies for, e.g. promotion or relegation
+ */
+export interface StandingRuleEntry {
+  id: number;
+  model_type: string;
+  model_id: number;
+  type_id: number;
+  position: number;
+  // Relationships
+  type?: Type;
+}
+
+/**
+ * Result of a recent fixture in a team's form
+ */
+export interface StandingForm {
+  id: number;
+  standing_type: string;
+  standing_id: number;
+  fixture_id: number;
+  form: 'W' | 'D' | 'L';
+  sort_order: number;
+}
+
 interface StandingDetail {
   id: number;
   standing_type: string;
@@ -312,9 +686,29 @@ export interface Coach {
   date_of_birth: string | null;
   gender: string;
   // Relationships
+  player?: Player;
+  sport?: Sport;
   country?: Country;
   nationality?: Country;
   teams?: Team[];
+  statistics?: SeasonStatistic[];
+  trophies?: Trophy[];
+}
+
+/**
+ * Coaching spell of a coach at a team
+ */
+export interface TeamCoach {
+  id: number;
+  team_id: number;
+  coach_id: number;
+  position_id: number;
+  active: boolean;
+  start: string;
+  end: string | null;
+  temporary: boolean;
+  // Relationships
+  coach?: Coach;
 }
 
 /**
@@ -336,7 +730,12 @@ export interface Referee {
   date_of_birth: string | null;
   gender: string;
   // Relationships
+  sport?: Sport;
   country?: Country;
+  city?: City;
+  nationality?: Country;
+  statistics?: SeasonStatistic[];
+  fixtures?: Fixture[];
 }
 
 /**
@@ -368,10 +767,13 @@ export interface Transfer {
   completed: boolean;
   amount: number | null;
   // Relationships
+  sport?: Sport;
   player?: Player;
   fromteam?: Team;
   toteam?: Team;
   type?: TransferType;
+  position?: Position;
+  detailedposition?: Position;
 }
 
 /**
@@ -393,6 +795,8 @@ export interface Venue {
   national_team: boolean;
   // Relationships
   country?: Country;
+  city?: City;
+  fixtures?: Fixture[];
 }
 
 /**
@@ -410,6 +814,13 @@ export interface Round {
   starting_at: string | null;
   ending_at: string | null;
   games_in_current_week: boolean;
+  // Relationships
+  sport?: Sport;
+  league?: League;
+  season?: Season;
+  stage?: Stage;
+  fixtures?: Fixture[];
+  statistics?: AggregatedStatistic[];
 }
 
 /**
@@ -458,6 +869,98 @@ export interface FixtureStatistic {
   };
 }
 
+/**
+ * Referee of a fixture with their role, e.g. main referee or VAR
+ */
+export interface FixtureReferee {
+  id: number;
+  fixture_id: number;
+  referee_id: number;
+  type_id: number;
+  // Relationships
+  referee?: Referee;
+  type?: Type;
+}
+
+/**
+ * Formation a team lined up in
+ */
+export interface Formation {
+  id: number;
+  fixture_id: number;
+  participant_id: number;
+  formation: string;
+  location: 'home' | 'away';
+}
+
+/**
+ * Value of a statistic for a team at a minute of a fixture
+ */
+export interface Trend {
+  id: number;
+  fixture_id: number;
+  participant_id: number;
+  type_id: number;
+  period_id: number;
+  value: number;
+  minute: number;
+}
+
+/**
+ * Pressure index of a team at a minute of a fixture
+ */
+export interface Pressure {
+  id: number;
+  fixture_id: number;
+  participant_id: number;
+  minute: number;
+  pressure: number;
+}
+
+/**
+ * Position of the ball at a moment of a fixture
+ */
+export interface BallCoordinate {
+  id: number;
+  fixture_id: number;
+  period_id: number;
+  timer: string;
+  x: string;
+  y: string;
+}
+
+/**
+ * Weather forecast or report for a fixture
+ */
+export interface WeatherReport {
+  id: number;
+  fixture_id: number;
+  venue_id: number;
+  temperature: Record<string, number>;
+  feels_like: Record<string, number>;
+  wind: { speed: number; direction: number };
+  humidity: string;
+  pressure: number;
+  clouds: string;
+  description: string;
+  icon: string;
+  type: string;
+  metric: string;
+}
+
+/**
+ * Extra information about an entity, e.g. a player's preferred foot
+ */
+export interface Metadata {
+  id: number;
+  metadatable_id: number;
+  type_id: number;
+  value_type: string;
+  values: unknown;
+  // Relationships
+  type?: Type;
+}
+
 /**
  * Lineup entity
  */
@@ -474,6 +977,29 @@ export interface Lineup {
   minutes_played: number | null;
   player?: Player;
   stats?: any;
+  // Relationships
+  fixture?: Fixture;
+  type?: Type;
+  position?: Position;
+  detailedposition?: Position;
+  team?: Team;
+  details?: LineupDetail[];
+  xGLineup?: ExpectedLineup[];
+}
+
+/**
+ * A statistic of a player in a fixture lineup
+ */
+export interface LineupDetail {
+  id: number;
+  fixture_id: number;
+  player_id: number;
+  team_id: number;
+  lineup_id: number;
+  type_id: number;
+  data: StatisticValue;
+  // Relationships
+  type?: Type;
 }
 
 /**
@@ -499,6 +1025,9 @@ export interface MatchEvent {
   on_bench: boolean;
   // Relationships
   type?: EventType;
+  fixture?: Fixture;
+  period?: Period;
+  participant?: Team;
   player?: Player;
   relatedplayer?: Player;
 }
@@ -545,6 +1074,26 @@ export interface SquadMember {
   position?: Position;
 }
 
+/**
+ * Value of a statistic detail. Most types report a `total`; some add a breakdown,
+ * e.g. goals with `{ total, goals, penalties }`.
+ */
+export interface StatisticValue {
+  total?: number;
+  [key: string]: number | string | null | undefined | Record<string, number>;
+}
+
+/**
+ * A single statistic of a participant, identified by its type
+ */
+export interface StatisticDetail {
+  id: number;
+  type_id: PlayerStatisticType | number;
+  value: StatisticValue;
+  // Relationships
+  type?: Type;
+}
+
 /**
  * Player statistic entity
  */
@@ -555,8 +1104,59 @@ export interface PlayerStatistic {
   season_id: number;
   position_id: number;
   has_values: boolean;
-  // Statistics data would be included here
-  details?: any;
+  // Relationships
+  details?: StatisticDetail[];
+  season?: Season;
+}
+
+/**
+ * Season statistics of a participant (player, team, coach or referee)
+ */
+export interface SeasonStatistic {
+  id: number;
+  season_id: number;
+  has_values: boolean;
+  player_id?: number;
+  team_id?: number;
+  coach_id?: number;
+  referee_id?: number;
+  position_id?: number | null;
+  // Relationships
+  details?: StatisticDetail[];
+  season?: Season;
+}
+
+/**
+ * Aggregated statistic of a stage or round
+ */
+export interface AggregatedStatistic {
+  id: number;
+  model_id: number;
+  type_id: PlayerStatisticType | number;
+  relation_id: number | null;
+  value: StatisticValue;
+  // Relationships
+  type?: Type;
+}
+
+/**
+ * Topscorer entry of a season or stage leaderboard
+ */
+export interface Topscorer {
+  id: number;
+  season_id: number;
+  stage_id: number | null;
+  player_id: number;
+  participant_id: number;
+  type_id: PlayerStatisticType | number;
+  position: number;
+  total: number;
+  // Relationships
+  season?: Season;
+  stage?: Stage;
+  player?: Player;
+  participant?: Team;
+  type?: Type;
 }
 
 /**
@@ -571,6 +1171,29 @@ export interface Trophy {
   player_id: number;
 }
 
+/**
+ * Social media account of a team
+ */
+export interface Social {
+  id: number;
+  social_id: number;
+  social_channel_id: number;
+  value: string;
+}
+
+/**
+ * Ranking of a team on a date
+ */
+export interface Ranking {
+  id: number;
+  participant_id: number;
+  sport_id: number;
+  date: string;
+  current_rank: number;
+  points: number;
+  type: string;
+}
+
 /**
  * Comment entity
  */
@@ -584,6 +1207,23 @@ export interface Comment {
   is_goal: boolean;
   is_important: boolean;
   order: number;
+  // Relationships
+  player?: Player;
+  relatedPlayer?: Player;
+  fixture?: Fixture;
+}
+
+/**
+ * Rivalry between two teams
+ */
+export interface Rival {
+  id: number;
+  sport_id: number;
+  team_id: number;
+  rival_id: number;
+  // Relationships
+  team?: Team;
+  rival?: Team;
 }
 
 /**
@@ -596,6 +1236,23 @@ export interface TvStation {
   image_path: string | null;
   type: string | null;
   related_id: number | null;
+  // Relationships
+  countries?: Country[];
+  fixtures?: Fixture[];
+}
+
+/**
+ * Broadcast of a fixture by a TV station in a country
+ */
+export interface FixtureTvStation {
+  id: number;
+  fixture_id: number;
+  tvstation_id: number;
+  country_id: number;
+  // Relationships
+  fixture?: Fixture;
+  tvstation?: TvStation;
+  country?: Country;
 }
 
 /**
@@ -711,3 +1368,219 @@ export interface ScheduleRound {
 export interface SchedulesBySeasonResponse {
   data: ScheduleStage[];
 }
+
+/**
+ * Include available to the API key, from `my/enrichments`
+ */
+export interface Enrichment {
+  id: number;
+  name: string;
+}
+
+/**
+ * Endpoint group available to the API key, from `my/resources`
+ */
+export interface AccessibleResource {
+  id: number;
+  name: string;
+}
+
+/**
+ * An entity and the relationships it can load with `include()`
+ */
+export interface EntityIncludes<E, K extends keyof E> {
+  entity: E;
+  includes: K;
+}
+
+/**
+ * Relationships each entity can load with `include()`, keyed by entity name and taken from
+ * the include lists of the API v3 entity docs.
+ * `QueryBuilder.include()` only accepts these names for the entity it returns,
+ * and makes the included fields non-optional in the response type.
+ */
+export interface IncludeMap {
+  Country: EntityIncludes<Country, 'continent' | 'leagues' | 'regions'>;
+  Continent: EntityIncludes<Continent, 'countries'>;
+  Region: EntityIncludes<Region, 'country' | 'cities'>;
+  City: EntityIncludes<City, 'country' | 'region'>;
+  League: EntityIncludes<
+    League,
+    | 'sport'
+    | 'country'
+    | 'stages'
+    | 'latest'
+    | 'upcoming'
+    | 'inplay'
+    | 'today'
+    | 'currentSeason'
+    | 'seasons'
+  >;
+  Season: EntityIncludes<
+    Season,
+    | 'sport'
+    | 'league'
+    | 'teams'
+    | 'stages'
+    | 'rounds'
+    | 'currentStage'
+    | 'fixtures'
+    | 'groups'
+    | 'statistics'
+    | 'topscorers'
+  >;
+  Stage: EntityIncludes<
+    Stage,
+    | 'sport'
+    | 'league'
+    | 'season'
+    | 'type'
+    | 'rounds'
+    | 'currentRound'
+    | 'groups'
+    | 'fixtures'
+    | 'aggregates'
+    | 'topscorers'
+    | 'statistics'
+  >;
+  Round: EntityIncludes<Round, 'sport' | 'league' | 'season' | 'stage' | 'fixtures' | 'statistics'>;
+  Team: EntityIncludes<
+    Team,
+    | 'sport'
+    | 'country'
+    | 'venue'
+    | 'coaches'
+    | 'rivals'
+    | 'players'
+    | 'latest'
+    | 'upcoming'
+    | 'seasons'
+    | 'activeSeasons'
+    | 'sidelined'
+    | 'sidelinedHistory'
+    | 'statistics'
+    | 'trophies'
+    | 'socials'
+    | 'rankings'
+  >;
+  Player: EntityIncludes<
+    Player,
+    | 'sport'
+    | 'country'
+    | 'city'
+    | 'nationality'
+    | 'transfers'
+    | 'pendingTransfers'
+    | 'teams'
+    | 'statistics'
+    | 'latest'
+    | 'position'
+    | 'detailedposition'
+    | 'lineups'
+    | 'trophies'
+    | 'metadata'
+    | 'sidelined'
+  >;
+  Fixture: EntityIncludes<
+    Fixture,
+    | 'sport'
+    | 'round'
+    | 'stage'
+    | 'group'
+    | 'aggregate'
+    | 'league'
+    | 'season'
+    | 'coaches'
+    | 'tvstations'
+    | 'venue'
+    | 'state'
+    | 'weatherReport'
+    | 'lineups'
+    | 'events'
+    | 'timeline'
+    | 'comments'
+    | 'trends'
+    | 'statistics'
+    | 'periods'
+    | 'participants'
+    | 'odds'
+    | 'premiumOdds'
+    | 'inplayOdds'
+    | 'prematchNews'
+    | 'postmatchNews'
+    | 'metadata'
+    | 'sidelined'
+    | 'predictions'
+    | 'referees'
+    | 'formations'
+    | 'ballCoordinates'
+    | 'scores'
+    | 'xGFixture'
+    | 'pressure'
+    | 'expectedLineups'
+  >;
+  NewsArticle: EntityIncludes<NewsArticle, 'lines' | 'fixture' | 'league'>;
+  ExpectedFixture: EntityIncludes<ExpectedFixture, 'type' | 'participant' | 'fixture'>;
+  ExpectedLineup: EntityIncludes<ExpectedLineup, 'type' | 'player' | 'team' | 'fixture'>;
+  Odd: EntityIncludes<Odd, 'fixture' | 'market' | 'bookmaker'>;
+  Prediction: EntityIncludes<Prediction, 'type' | 'fixture'>;
+  ValueBet: EntityIncludes<ValueBet, 'type' | 'fixture'>;
+  Predictability: EntityIncludes<Predictability, 'type' | 'league'>;
+  SquadPlayer: EntityIncludes<
+    SquadPlayer,
+    'player' | 'team' | 'position' | 'detailedposition' | 'transfer'
+  >;
+  Sidelined: EntityIncludes<Sidelined, 'player' | 'type' | 'team' | 'season'>;
+  Standing: EntityIncludes<
+    Standing,
+    | 'sport'
+    | 'participant'
+    | 'league'
+    | 'season'
+    | 'stage'
+    | 'group'
+    | 'round'
+    | 'rule'
+    | 'details'
+    | 'form'
+  >;
+  StandingCorrection: EntityIncludes<StandingCorrection, 'participant'>;
+  Coach: EntityIncludes<
+    Coach,
+    'player' | 'sport' | 'country' | 'nationality' | 'teams' | 'statistics' | 'trophies'
+  >;
+  Referee: EntityIncludes<
+    Referee,
+    'sport' | 'country' | 'city' | 'nationality' | 'statistics' | 'fixtures'
+  >;
+  Transfer: EntityIncludes<
+    Transfer,
+    'sport' | 'player' | 'type' | 'fromteam' | 'toteam' | 'position' | 'detailedposition'
+  >;
+  Venue: EntityIncludes<Venue, 'country' | 'city' | 'fixtures'>;
+  Lineup: EntityIncludes<
+    Lineup,
+    | 'fixture'
+    | 'player'
+    | 'type'
+    | 'position'
+    | 'detailedposition'
+    | 'team'
+    | 'details'
+    | 'xGLineup'
+  >;
+  MatchEvent: EntityIncludes<
+    MatchEvent,
+    'type' | 'fixture' | 'period' | 'participant' | 'player' | 'relatedplayer'
+  >;
+  SquadMember: EntityIncludes<SquadMember, 'player' | 'position'>;
+  StatisticDetail: EntityIncludes<StatisticDetail, 'type'>;
+  PlayerStatistic: EntityIncludes<PlayerStatistic, 'details' | 'season'>;
+  SeasonStatistic: EntityIncludes<SeasonStatistic, 'details' | 'season'>;
+  AggregatedStatistic: EntityIncludes<AggregatedStatistic, 'type'>;
+  Topscorer: EntityIncludes<Topscorer, 'season' | 'stage' | 'player' | 'participant' | 'type'>;
+  Comment: EntityIncludes<Comment, 'fixture' | 'player' | 'relatedPlayer'>;
+  Rival: EntityIncludes<Rival, 'team' | 'rival'>;
+  TvStation: EntityIncludes<TvStation, 'countries' | 'fixtures'>;
+  FixtureTvStation: EntityIncludes<FixtureTvStation, 'fixture' | 'tvstation' | 'country'>;
+}
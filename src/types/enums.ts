@@ -215,6 +215,27 @@ export enum PlayerStatisticType {
   FOULS_COMMITTED = 594
 }
 
+/**
+ * Expected goals types
+ */
+export enum ExpectedType {
+  EXPECTED_GOALS = 5304,
+  EXPECTED_GOALS_ON_TARGET = 5305
+}
+
+/**
+ * Prediction probability types.
+ * Other over/under lines are identified by the `developer_name` of the included `type`,
+ * e.g. `OVER_UNDER_3_5_PROBABILITY`.
+ */
+export enum PredictionType {
+  BTTS = 231,
+  OVER_UNDER_2_5 = 235,
+  FULLTIME_RESULT = 237,
+  DOUBLE_CHANCE = 239,
+  CORRECT_SCORE = 240
+}
+
 /**
  * Response metadata interfaces
  */
@@ -0,0 +1,176 @@
+import type { PaginatedResponse, SingleResponse } from './common';
+import type { IncludeMap } from './entities';
+
+/**
+ * Whether two types are assignable to each other
+ */
+type IsSame<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/**
+ * Name of an entity in the include map, or never for entities without one
+ */
+type EntityName<E> = {
+  [N in keyof IncludeMap]: IsSame<E, IncludeMap[N]['entity']> extends true ? N : never;
+}[keyof IncludeMap];
+
+type Element<R> = R extends readonly (infer U)[] ? U : R;
+
+type Split<S extends string, D extends string> = S extends `${infer A}${D}${infer B}`
+  ? A | Split<B, D>
+  : S;
+
+/**
+ * First relationship name of an include path
+ * @example Head<'lineups.player:display_name'> // 'lineups'
+ */
+type Head<P extends string> = P extends `${infer K}.${string}`
+  ? K
+  : P extends `${infer K}:${string}`
+    ? K
+    : P;
+
+/**
+ * Paths nested under a relationship
+ * @example NestedPaths<'lineups.player' | 'events', 'lineups'> // 'player'
+ */
+type NestedPaths<P extends string, K extends string> = P extends `${K}.${infer Rest}`
+  ? Rest
+  : never;
+
+/**
+ * Fields selected on a relationship, or never when it is loaded with all fields
+ * @example SelectedOn<'venue:name,capacity', 'venue'> // 'name' | 'capacity'
+ */
+type SelectedOn<P extends string, K extends string> = [Extract<P, K | `${K}.${string}`>] extends [
+  never
+]
+  ? P extends `${K}:${infer F}`
+    ? Split<F, ','>
+    : never
+  : never;
+
+/**
+ * The relationships include paths make non-optional on an entity, narrowed to their
+ * selected fields
+ */
+type IncludedFields<E, P extends string> = {
+  [K in Head<P> & keyof E & string]-?: IncludedRelation<
+    NonNullable<E[K]>,
+    NestedPaths<P, K>,
+    SelectedOn<P, K>
+  >;
+};
+
+type IncludedRelation<R, P extends string, F extends string> = R extends readonly (infer U)[]
+  ? Narrowed<U, P, F>[]
+  : Narrowed<R, P, F>;
+
+/**
+ * An entity narrowed to the selected fields, with the included relationships replacing the
+ * optional ones
+ */
+type Narrowed<E, P extends string, F extends string> = [P] extends [never]
+  ? Selected<E, F>
+  : string extends P
+    ? Selected<E, F>
+    : Omit<Selected<E, F>, Head<P>> & IncludedFields<E, P>;
+
+/**
+ * Entity at the end of a relationship path, e.g. `Player` for `lineups.player` on a fixture
+ */
+type RelationAt<E, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof E
+    ? RelationAt<Element<NonNullable<E[K]>>, Rest>
+    : unknown
+  : P extends keyof E
+    ? Element<NonNullable<E[P]>>
+    : unknown;
+
+/**
+ * Field names of an entity, or any string when the entity type isn't known
+ */
+export type FieldName<E> = unknown extends E ? string : keyof E & string;
+
+/**
+ * An entity narrowed to the selected fields and its `id`
+ * @example Selected<League, 'name' | 'active'> // Pick<League, 'id' | 'name' | 'active'>
+ */
+export type Selected<E, F extends string> = [F] extends [never] ? E : Pick<E, (F | 'id') & keyof E>;
+
+/**
+ * Relationship names an entity can load with `include()`.
+ * Entities without an entry in `IncludeMap` accept any name.
+ * @example IncludeName<Venue> // 'country' | 'city'
+ */
+export type IncludeName<E> = [EntityName<E>] extends [never]
+  ? string
+  : IncludeMap[EntityName<E>]['includes'];
+
+/**
+ * A relationship name, optionally followed by nested relationships
+ * @example IncludePath<Fixture> // 'lineups' | `lineups.${string}` | ...
+ */
+export type IncludePath<E> = IncludeName<E> | `${IncludeName<E>}.${string}`;
+
+/**
+ * Include strings accepted by `include()`: a relationship name, optionally with nested
+ * relationships (`lineups.player`), selected fields (`lineups:player_name`) or more includes
+ * separated by semicolons. Only the first name of each string is checked.
+ */
+export type IncludeSpec<E> =
+  | IncludePath<E>
+  | `${IncludeName<E>}:${string}`
+  | `${IncludeName<E>};${string}`;
+
+/**
+ * Relationships with the fields to select from each, or true for all fields, as taken by
+ * `withIncludes()`
+ */
+export type IncludeFieldMap<E, W> = {
+  [P in keyof W]: P extends IncludePath<E>
+    ? readonly FieldName<RelationAt<E, P>>[] | boolean
+    : never;
+};
+
+/**
+ * Include strings of a `withIncludes()` argument
+ * @example FieldIncludes<{ venue: ['name']; lineups: true }> // 'venue:name' | 'lineups'
+ */
+export type FieldIncludes<W> = {
+  [P in keyof W & string]: W[P] extends true
+    ? P
+    : W[P] extends readonly (infer F extends string)[]
+      ? `${P}:${F}`
+      : never;
+}[keyof W & string];
+
+/**
+ * Fields of the entity at the end of an include path, as taken by `includeFields()`
+ */
+export type RelationFieldName<E, P extends string> = FieldName<RelationAt<E, P>>;
+
+/**
+ * An entity with the relationships of the given includes made non-optional, and narrowed to
+ * the selected fields if any
+ * @example WithIncludes<Fixture, 'participants' | 'lineups.player'>
+ * @example WithIncludes<Fixture, 'venue:name', 'name' | 'starting_at'>
+ */
+export type WithIncludes<E, S extends string, F extends string = never> = Narrowed<
+  E,
+  Split<S, ';'>,
+  F
+>;
+
+/**
+ * A response whose data has the relationships of the given includes made non-optional, and
+ * is narrowed to the selected fields if any
+ */
+export type IncludedResponse<T, S extends string, F extends string = never> = [S | F] extends [
+  never
+]
+  ? T
+  : T extends PaginatedResponse<infer U>
+    ? PaginatedResponse<WithIncludes<U, S, F>>
+    : T extends SingleResponse<infer U>
+      ? SingleResponse<WithIncludes<U, S, F>>
+      : T;
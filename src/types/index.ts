@@ -3,3 +3,4 @@ export * from './common';
 export * from './entities';
 export * from './enums';
 export * from './sportmonks-syntax';
+export * from './includes';
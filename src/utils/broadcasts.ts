@@ -0,0 +1,67 @@
+/**
+ * Broadcast utilities for the SportMonks SDK
+ */
+
+import type { Fixture, TvStation } from '../types';
+
+/**
+ * Fixtures broadcast by one TV station, in kick-off order
+ */
+export interface BroadcastChannel<T = Fixture> {
+  tvstation_id: number;
+  tvstation?: TvStation;
+  fixtures: T[];
+}
+
+/**
+ * Which broadcasts to keep in a guide. Both filters must match when both are set.
+ */
+export interface BroadcastFilter {
+  countryId?: number;
+  tvStationIds?: number[];
+}
+
+/**
+ * Group fixtures into a broadcast schedule per TV station.
+ * Fixtures need the `tvstations` include (`tvstations.tvstation` for the station details).
+ * Each channel lists its fixtures by kick-off; channels are ordered by their first broadcast.
+ * @example
+ * const fixtures = await client.fixtures
+ *   .byDateRange('2024-01-13', '2024-01-14')
+ *   .include(['tvstations.tvstation'])
+ *   .getAll();
+ * const guide = broadcastGuide(fixtures, { countryId: 462 });
+ */
+export function broadcastGuide<T extends Pick<Fixture, 'starting_at_timestamp' | 'tvstations'>>(
+  fixtures: T[],
+  filter: BroadcastFilter = {}
+): BroadcastChannel<T>[] {
+  const stationIds = filter.tvStationIds ? new Set(filter.tvStationIds) : undefined;
+  const channels = new Map<number, BroadcastChannel<T>>();
+
+  [...fixtures]
+    .sort((a, b) => a.starting_at_timestamp - b.starting_at_timestamp)
+    .forEach(fixture => {
+      (fixture.tvstations ?? []).forEach(broadcast => {
+        if (filter.countryId !== undefined && broadcast.country_id !== filter.countryId) {
+          return;
+        }
+        if (stationIds && !stationIds.has(broadcast.tvstation_id)) {
+          return;
+        }
+
+        let channel = channels.get(broadcast.tvstation_id);
+        if (!channel) {
+          channel = { tvstation_id: broadcast.tvstation_id, fixtures: [] };
+          channels.set(broadcast.tvstation_id, channel);
+        }
+        channel.tvstation = channel.tvstation ?? broadcast.tvstation;
+        // A station can be listed once per country for the same fixture
+        if (!channel.fixtures.includes(fixture)) {
+          channel.fixtures.push(fixture);
+        }
+      });
+    });
+
+  return [...channels.values()];
+}
@@ -0,0 +1,20 @@
+/**
+ * Commentary utilities for the SportMonks SDK
+ */
+
+import type { Comment } from '../types';
+
+/**
+ * Order commentary lines by minute, then extra minute, then their order within the minute
+ * @example
+ * const fixture = await client.fixtures.byId(18535517).include(['comments']).get();
+ * const lines = sortCommentaries(fixture.data.comments ?? []);
+ */
+export function sortCommentaries<T extends Pick<Comment, 'minute' | 'extra_minute' | 'order'>>(
+  comments: T[]
+): T[] {
+  return [...comments].sort(
+    (a, b) =>
+      a.minute - b.minute || (a.extra_minute ?? 0) - (b.extra_minute ?? 0) || a.order - b.order
+  );
+}
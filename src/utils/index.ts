@@ -2,3 +2,9 @@
 export * from './polling';
 export * from './validators';
 export * from './type-helpers';
+export * from './squads';
+export * from './statistics';
+export * from './predictions';
+export * from './broadcasts';
+export * from './sidelined';
+export * from './commentaries';
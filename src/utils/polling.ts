@@ -1,4 +1,7 @@
-import { PaginatedResponse } from '../types';
+import { Comment, PaginatedResponse } from '../types';
+import { createAbortController } from '../core/abort';
+import { AbortError } from '../core/errors';
+import { sortCommentaries } from './commentaries';
 
 /**
  * Options for polling configuration
@@ -16,6 +19,8 @@ export interface PollingOptions {
   stopOnError?: boolean;
   /** Compare function to detect changes */
   compareFunction?: (oldData: any, newData: any) => boolean;
+  /** Stop polling when this signal is aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -26,9 +31,16 @@ export class Poller<T> {
   private startTime?: number;
   private lastData?: T;
   private isPolling = false;
+  private controller?: AbortController;
+  private onAbort = () => this.stop();
 
+  /**
+   * @param fetchFunction Fetches the data. Receives a signal that is aborted when
+   * polling stops, so in-flight requests can be cancelled with `.signal(signal)`.
+   * The signal is undefined on runtimes without `AbortController`.
+   */
   constructor(
-    private fetchFunction: () => Promise<T>,
+    private fetchFunction: (signal?: AbortSignal) => Promise<T>,
     private options: PollingOptions
   ) {}
 
@@ -39,9 +51,14 @@ export class Poller<T> {
     if (this.isPolling) {
       throw new Error('Polling is already active');
     }
+    if (this.options.signal?.aborted) {
+      return;
+    }
 
     this.isPolling = true;
     this.startTime = Date.now();
+    this.controller = createAbortController();
+    this.options.signal?.addEventListener('abort', this.onAbort, { once: true });
 
     // Fetch immediately
     this.fetch();
@@ -69,6 +86,9 @@ export class Poller<T> {
       clearInterval(this.intervalId);
       this.intervalId = undefined;
     }
+    this.options.signal?.removeEventListener('abort', this.onAbort);
+    this.controller?.abort();
+    this.controller = undefined;
     this.isPolling = false;
   }
 
@@ -83,8 +103,12 @@ export class Poller<T> {
    * Fetch data and handle callbacks
    */
   private async fetch(): Promise<void> {
+    const signal = this.controller?.signal;
     try {
-      const data = await this.fetchFunction();
+      const data = await this.fetchFunction(signal);
+      if (signal?.aborted) {
+        return;
+      }
 
       // Check if data has changed
       const hasChanged = this.hasDataChanged(data);
@@ -95,6 +119,11 @@ export class Poller<T> {
 
       this.lastData = data;
     } catch (error) {
+      // Requests cancelled by stop() aren't errors
+      if (error instanceof AbortError && signal?.aborted) {
+        return;
+      }
+
       if (this.options.onError) {
         this.options.onError(error as Error);
       }
@@ -156,7 +185,7 @@ export class Poller<T> {
  * Create a poller for livescores
  */
 export function createLivescoresPoller(
-  fetchFunction: () => Promise<PaginatedResponse<any>>,
+  fetchFunction: (signal?: AbortSignal) => Promise<PaginatedResponse<any>>,
   options: Partial<PollingOptions> = {}
 ): Poller<PaginatedResponse<any>> {
   const defaultOptions: PollingOptions = {
@@ -173,7 +202,7 @@ export function createLivescoresPoller(
  * Create a poller for transfer news
  */
 export function createTransfersPoller(
-  fetchFunction: () => Promise<PaginatedResponse<any>>,
+  fetchFunction: (signal?: AbortSignal) => Promise<PaginatedResponse<any>>,
   options: Partial<PollingOptions> = {}
 ): Poller<PaginatedResponse<any>> {
   const defaultOptions: PollingOptions = {
@@ -201,3 +230,39 @@ export function createTransfersPoller(
 
   return new Poller(fetchFunction, defaultOptions);
 }
+
+/**
+ * Create a poller that streams new commentary lines of a live fixture.
+ * `onData` receives only the lines not seen before, in match order.
+ * @example
+ * const poller = createCommentariesPoller(
+ *   signal => client.commentaries.timeline(18535517, { signal }),
+ *   { onData: lines => lines.forEach(line => console.log(line.minute, line.comment)) }
+ * );
+ * poller.start();
+ */
+export function createCommentariesPoller(
+  fetchFunction: (signal?: AbortSignal) => Promise<Comment[]>,
+  options: Partial<PollingOptions> = {}
+): Poller<Comment[]> {
+  const seen = new Set<number>();
+  const isNew = (comment: Comment) => !seen.has(comment.id);
+  const { onData, ...rest } = options;
+
+  const defaultOptions: PollingOptions = {
+    interval: 15000, // 15 seconds
+    maxDuration: 10800000, // 3 hours
+    stopOnError: false,
+    ...rest,
+    compareFunction: (_oldData, newData: Comment[]) => newData.some(isNew),
+    onData: (data: Comment[]) => {
+      const lines = sortCommentaries(data).filter(isNew);
+      lines.forEach(line => seen.add(line.id));
+      if (lines.length > 0 && onData) {
+        onData(lines);
+      }
+    }
+  };
+
+  return new Poller(fetchFunction, defaultOptions);
+}
@@ -0,0 +1,123 @@
+/**
+ * Prediction utilities for the SportMonks SDK
+ */
+
+import { ValidationError } from '../core/errors';
+import { PredictionType } from '../types/enums';
+import type { Prediction } from '../types';
+
+/**
+ * Home/draw/away probabilities in percent
+ */
+export interface ResultProbabilities {
+  home: number;
+  draw: number;
+  away: number;
+}
+
+/**
+ * Over/under probabilities in percent for one goal line
+ */
+export interface OverUnderProbabilities {
+  over: number;
+  under: number;
+}
+
+/**
+ * Probabilities of a fixture grouped by market
+ */
+export interface ProbabilityMap {
+  /** Fulltime result */
+  result?: ResultProbabilities;
+  /** Both teams to score */
+  btts?: { yes: number; no: number };
+  /** Over/under keyed by goal line, e.g. `'2.5'` */
+  overUnder: Record<string, OverUnderProbabilities>;
+}
+
+const OVER_UNDER_TYPE = /^OVER_UNDER_(\d+)_(\d+)_PROBABILITY$/;
+
+/**
+ * Read a probability, accepting numbers and numeric strings such as `"45.6%"`
+ * @throws ValidationError when the value is missing or not between 0 and 100
+ */
+function probability(prediction: Prediction, key: string): number {
+  const raw = (prediction.predictions as Record<string, unknown>)[key];
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof value !== 'number' || !isFinite(value) || value < 0 || value > 100) {
+    throw new ValidationError(
+      `Invalid probability "${key}" in prediction ${prediction.id}: ${JSON.stringify(raw)}`
+    );
+  }
+  return value;
+}
+
+/**
+ * The goal line of an over/under prediction, e.g. `'2.5'`
+ */
+function overUnderLine(prediction: Prediction): string | undefined {
+  const match = prediction.type?.developer_name.match(OVER_UNDER_TYPE);
+  if (match) {
+    return `${match[1]}.${match[2]}`;
+  }
+  return prediction.type_id === PredictionType.OVER_UNDER_2_5 ? '2.5' : undefined;
+}
+
+/**
+ * Get the fulltime home/draw/away probabilities
+ * @returns undefined when the predictions don't include the fulltime result type
+ * @throws ValidationError when a probability is missing or out of range
+ */
+export function resultProbabilities(predictions: Prediction[]): ResultProbabilities | undefined {
+  const prediction = predictions.find(
+    p =>
+      p.type_id === PredictionType.FULLTIME_RESULT ||
+      p.type?.developer_name === 'FULLTIME_RESULT_PROBABILITY'
+  );
+  if (!prediction) {
+    return undefined;
+  }
+  return {
+    home: probability(prediction, 'home'),
+    draw: probability(prediction, 'draw'),
+    away: probability(prediction, 'away')
+  };
+}
+
+/**
+ * Get the over/under probabilities keyed by goal line.
+ * Lines other than 2.5 are only recognised when the `type` include is present.
+ * @throws ValidationError when a probability is missing or out of range
+ */
+export function overUnderProbabilities(
+  predictions: Prediction[]
+): Record<string, OverUnderProbabilities> {
+  const lines: Record<string, OverUnderProbabilities> = {};
+  predictions.forEach(prediction => {
+    const line = overUnderLine(prediction);
+    if (line) {
+      lines[line] = { over: probability(prediction, 'yes'), under: probability(prediction, 'no') };
+    }
+  });
+  return lines;
+}
+
+/**
+ * Turn a fixture's probabilities into a map of result, both teams to score and over/under
+ * @example
+ * const predictions = await client.predictions.probabilitiesByFixture(18535517)
+ *   .include(['type'])
+ *   .get();
+ * const { result, overUnder } = toProbabilityMap(predictions.data);
+ * console.log(result?.home, overUnder['2.5']?.over);
+ */
+export function toProbabilityMap(predictions: Prediction[]): ProbabilityMap {
+  const btts = predictions.find(
+    p => p.type_id === PredictionType.BTTS || p.type?.developer_name === 'BTTS_PROBABILITY'
+  );
+  return {
+    result: resultProbabilities(predictions),
+    btts: btts ? { yes: probability(btts, 'yes'), no: probability(btts, 'no') } : undefined,
+    overUnder: overUnderProbabilities(predictions)
+  };
+}
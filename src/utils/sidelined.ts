@@ -0,0 +1,36 @@
+/**
+ * Sidelined utilities for the SportMonks SDK
+ */
+
+import type { Sidelined } from '../types';
+import { formatDate, validateDateFormat } from './validators';
+
+/**
+ * Filter sidelined records to the ones keeping a player out on a given date.
+ * A record counts from its `start_date` up to and including its `end_date`;
+ * records without an `end_date` count until they are completed.
+ * @param date A `Date` or a `YYYY-MM-DD` string
+ * @example
+ * const team = await client.teams.byId(1).include(['sidelined.player']).get();
+ * const out = sidelinedOnDate(team.data.sidelined ?? [], '2024-01-13');
+ */
+export function sidelinedOnDate<T extends Pick<Sidelined, 'start_date' | 'end_date' | 'completed'>>(
+  records: T[],
+  date: Date | string
+): T[] {
+  let day: string;
+  if (typeof date === 'string') {
+    validateDateFormat(date);
+    day = date;
+  } else {
+    day = formatDate(date);
+  }
+
+  return records.filter(record => {
+    const start = record.start_date.slice(0, 10);
+    if (start > day) {
+      return false;
+    }
+    return record.end_date ? record.end_date.slice(0, 10) >= day : !record.completed;
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Squad utilities for the SportMonks SDK
+ */
+
+import type { SquadPlayer } from '../types';
+import { formatDate, validateDateFormat } from './validators';
+
+/**
+ * Filter squad memberships to the ones active on a given date.
+ * A membership counts from its `start` date up to and including its `end` date;
+ * a missing `start` or `end` leaves that side open.
+ * @param date A `Date` or a `YYYY-MM-DD` string
+ * @example
+ * const squad = await client.squads.byTeam(1).include(['player']).get();
+ * const onMatchday = squadOnDate(squad.data, '2023-01-14');
+ */
+export function squadOnDate<T extends Pick<SquadPlayer, 'start' | 'end'>>(
+  members: T[],
+  date: Date | string
+): T[] {
+  let day: string;
+  if (typeof date === 'string') {
+    validateDateFormat(date);
+    day = date;
+  } else {
+    day = formatDate(date);
+  }
+
+  return members.filter(member => {
+    const start = member.start ? member.start.slice(0, 10) : undefined;
+    const end = member.end ? member.end.slice(0, 10) : undefined;
+    return (!start || start <= day) && (!end || end >= day);
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Statistics utilities for the SportMonks SDK
+ */
+
+import type { PlayerStatisticType, StatisticDetail, StatisticValue, Topscorer } from '../types';
+
+/**
+ * Index statistic details by their type
+ * @example
+ * const stats = await client.statistics.bySeason('players', 580, 19735).include(['details']).get();
+ * const values = statisticsByType(stats.data[0].details ?? []);
+ * console.log(values[PlayerStatisticType.GOALS]?.total);
+ */
+export function statisticsByType(
+  details: StatisticDetail[]
+): Partial<Record<PlayerStatisticType, StatisticValue>> {
+  const values: Partial<Record<PlayerStatisticType, StatisticValue>> = {};
+  details.forEach(detail => {
+    values[detail.type_id as PlayerStatisticType] = detail.value;
+  });
+  return values;
+}
+
+/**
+ * Group topscorers into one leaderboard per statistic type, ordered by position
+ * @example
+ * const scorers = await client.topscorers.bySeason(19735).include(['player']).getAll();
+ * const goals = topscorersByType(scorers)[PlayerStatisticType.GOALS];
+ */
+export function topscorersByType(
+  topscorers: Topscorer[]
+): Partial<Record<PlayerStatisticType, Topscorer[]>> {
+  const boards: Partial<Record<PlayerStatisticType, Topscorer[]>> = {};
+  topscorers.forEach(entry => {
+    const type = entry.type_id as PlayerStatisticType;
+    (boards[type] = boards[type] ?? []).push(entry);
+  });
+  Object.values(boards).forEach(board => board!.sort((a, b) => a.position - b.position));
+  return boards;
+}
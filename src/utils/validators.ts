@@ -2,19 +2,21 @@
  * Validation utilities for the SportMonks SDK
  */
 
+import { ValidationError } from '../core/errors';
+
 /**
  * Validate date format (YYYY-MM-DD)
  */
 export function validateDateFormat(date: string): void {
   const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
   if (!dateRegex.test(date)) {
-    throw new Error(`Invalid date format: ${date}. Expected YYYY-MM-DD`);
+    throw new ValidationError(`Invalid date format: ${date}. Expected YYYY-MM-DD`);
   }
 
   // Additional validation to ensure it's a valid date
   const dateObj = new Date(date);
   if (isNaN(dateObj.getTime())) {
-    throw new Error(`Invalid date: ${date}`);
+    throw new ValidationError(`Invalid date: ${date}`);
   }
 }
 
@@ -29,13 +31,15 @@ export function validateDateRange(startDate: string, endDate: string): void {
   const end = new Date(endDate);
 
   if (start > end) {
-    throw new Error(`Invalid date range: start date (${startDate}) is after end date (${endDate})`);
+    throw new ValidationError(
+      `Invalid date range: start date (${startDate}) is after end date (${endDate})`
+    );
   }
 
   // Check if range is too large (more than 1 year)
   const oneYear = 365 * 24 * 60 * 60 * 1000;
   if (end.getTime() - start.getTime() > oneYear) {
-    throw new Error('Date range cannot exceed 1 year');
+    throw new ValidationError('Date range cannot exceed 1 year');
   }
 }
 
@@ -46,7 +50,7 @@ export function formatDate(date: Date | string): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
 
   if (isNaN(dateObj.getTime())) {
-    throw new Error('Invalid date provided');
+    throw new ValidationError('Invalid date provided');
   }
 
   const year = dateObj.getFullYear();
@@ -86,7 +90,7 @@ export function validateId(id: string | number, name: string = 'ID'): number {
   const numId = typeof id === 'string' ? parseInt(id, 10) : id;
 
   if (isNaN(numId) || numId <= 0) {
-    throw new Error(`Invalid ${name}: ${id}. Must be a positive number`);
+    throw new ValidationError(`Invalid ${name}: ${id}. Must be a positive number`);
   }
 
   return numId;
@@ -97,14 +101,14 @@ export function validateId(id: string | number, name: string = 'ID'): number {
  */
 export function validateIds(ids: (string | number)[], name: string = 'IDs'): number[] {
   if (!Array.isArray(ids) || ids.length === 0) {
-    throw new Error(`${name} must be a non-empty array`);
+    throw new ValidationError(`${name} must be a non-empty array`);
   }
 
   return ids.map((id, index) => {
     try {
       return validateId(id, `${name}[${index}]`);
     } catch {
-      throw new Error(`Invalid ${name}[${index}]: ${id}`);
+      throw new ValidationError(`Invalid ${name}[${index}]: ${id}`);
     }
   });
 }
@@ -114,17 +118,17 @@ export function validateIds(ids: (string | number)[], name: string = 'IDs'): num
  */
 export function validateSearchQuery(query: string, minLength: number = 3): string {
   if (typeof query !== 'string') {
-    throw new Error('Search query must be a string');
+    throw new ValidationError('Search query must be a string');
   }
 
   const trimmed = query.trim();
 
   if (trimmed.length === 0) {
-    throw new Error('Invalid search query');
+    throw new ValidationError('Invalid search query');
   }
 
   if (trimmed.length < minLength) {
-    throw new Error(`Search query must be at least ${minLength} characters`);
+    throw new ValidationError(`Search query must be at least ${minLength} characters`);
   }
 
   return trimmed;
@@ -136,13 +140,13 @@ export function validateSearchQuery(query: string, minLength: number = 3): strin
 export function validatePagination(page?: number, perPage?: number): void {
   if (page !== undefined) {
     if (!Number.isInteger(page) || page < 1) {
-      throw new Error('Page must be a positive integer');
+      throw new ValidationError('Page must be a positive integer');
     }
   }
 
   if (perPage !== undefined) {
     if (!Number.isInteger(perPage) || perPage < 1 || perPage > 100) {
-      throw new Error('Per page must be an integer between 1 and 100');
+      throw new ValidationError('Per page must be an integer between 1 and 100');
     }
   }
 }
@@ -158,7 +162,7 @@ export function validateEnum<T extends Record<string, unknown>>(
   const values = Object.values(enumObject);
 
   if (!values.includes(value)) {
-    throw new Error(`Invalid ${name}: ${value}. Must be one of: ${values.join(', ')}`);
+    throw new ValidationError(`Invalid ${name}: ${value}. Must be one of: ${values.join(', ')}`);
   }
 
   return value as T[keyof T];
@@ -178,6 +182,6 @@ export function parseJsonSafely<T>(json: string): T {
   try {
     return JSON.parse(json);
   } catch {
-    throw new Error('Invalid JSON response from API');
+    throw new ValidationError('Invalid JSON response from API');
   }
 }
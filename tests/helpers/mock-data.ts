@@ -185,6 +185,47 @@ export function createMockReferee(overrides: any = {}) {
   };
 }
 
+/**
+ * Create a mock Season entity
+ */
+export function createMockSeason(overrides: any = {}) {
+  return {
+    id: 19735,
+    sport_id: 1,
+    league_id: 8,
+    tie_breaker_rule_id: 171,
+    name: '2022/2023',
+    finished: false,
+    pending: false,
+    is_current: true,
+    starting_at: '2022-08-05',
+    ending_at: '2023-05-28',
+    standings_recalculated_at: '2023-01-15 12:00:00',
+    games_in_current_week: true,
+    ...overrides
+  };
+}
+
+/**
+ * Create a mock Round entity
+ */
+export function createMockRound(overrides: any = {}) {
+  return {
+    id: 274719,
+    sport_id: 1,
+    league_id: 8,
+    season_id: 19735,
+    stage_id: 77457866,
+    name: '20',
+    finished: false,
+    is_current: true,
+    starting_at: '2023-01-14',
+    ending_at: '2023-01-16',
+    games_in_current_week: true,
+    ...overrides
+  };
+}
+
 /**
  * Helper to simulate API delay
  */
@@ -211,6 +211,7 @@ describe('CoachesResource Integration Tests', () => {
         // API might ignore invalid includes or throw error
         const responsePromise = client.coaches
           .all()
+          // @ts-expect-error unknown includes don't compile
           .include(['invalid_relationship'])
           .perPage(1)
           .get();
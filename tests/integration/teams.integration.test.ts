@@ -145,6 +145,7 @@ describeIfApiKey('TeamsResource - Real API Integration', () => {
 
   test('should test invalid includes error handling', async () => {
     try {
+      // @ts-expect-error unknown includes don't compile
       await client.teams.byId(1).include(['invalid_relationship']).get();
 
       fail('Should have thrown an error for invalid includes');
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AccountResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch the enrichments, resources and leagues of the API key', async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: createMockResponse([]) });
+
+    await client.account.enrichments().get();
+    await client.account.resources().get();
+    await client.account.leagues().include(['country']).get();
+
+    expect(mockAxiosInstance.get.mock.calls).toEqual([
+      ['/my/enrichments', { params: {} }],
+      ['/my/resources', { params: {} }],
+      ['/my/leagues', { params: { include: 'country' } }]
+    ]);
+  });
+
+  describe('canAccess', () => {
+    beforeEach(() => {
+      mockAxiosInstance.get.mockImplementation(async (path: string) => {
+        if (path === '/my/resources') {
+          return {
+            data: createMockResponse([
+              { id: 1, name: 'Fixtures' },
+              { id: 2, name: 'TV Stations' }
+            ])
+          };
+        }
+        return {
+          data: createMockResponse([
+            { id: 1, name: 'lineups' },
+            { id: 2, name: 'player' },
+            { id: 3, name: 'participants' }
+          ])
+        };
+      });
+    });
+
+    test('should check resources regardless of case and separators', async () => {
+      await expect(client.account.canAccess('fixtures')).resolves.toBe(true);
+      await expect(client.account.canAccess('tv-stations')).resolves.toBe(true);
+      await expect(client.account.canAccess('odds')).resolves.toBe(false);
+    });
+
+    test('should check every segment of the includes', async () => {
+      await expect(client.account.canAccess('fixtures', 'lineups.player')).resolves.toBe(true);
+      await expect(
+        client.account.canAccess('fixtures', ['participants', 'xGFixture'])
+      ).resolves.toBe(false);
+    });
+
+    test('should fetch the entitlements once', async () => {
+      await Promise.all([
+        client.account.canAccess('fixtures'),
+        client.account.canAccess('fixtures', 'lineups')
+      ]);
+      await client.account.canAccess('odds');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    test('should fetch the entitlements again after the API key changes', async () => {
+      await client.account.canAccess('fixtures');
+      client.setApiKey('new-api-key');
+      await client.account.canAccess('fixtures');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(4);
+    });
+
+    test('should not keep a failed fetch', async () => {
+      mockAxiosInstance.get.mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(client.account.canAccess('fixtures')).rejects.toThrow('Network Error');
+      await expect(client.account.canAccess('fixtures')).resolves.toBe(true);
+    });
+  });
+});
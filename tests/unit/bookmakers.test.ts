@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('BookmakersResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all bookmakers from the odds API', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([{ id: 2, legacy_id: 2, name: 'bet365' }])
+    });
+
+    const response = await client.bookmakers.all().get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/bookmakers', { params: {} });
+    expect(response.data[0].name).toBe('bet365');
+  });
+
+  test('should fetch bookmaker by ID', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: { id: 2, name: 'bet365' } } });
+
+    await client.bookmakers.byId(2).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/bookmakers/2', { params: {} });
+  });
+
+  test('should search bookmakers', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.bookmakers.search('bet365').get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/bookmakers/search/bet365', {
+      params: {}
+    });
+  });
+
+  test('should fetch bookmakers by fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.bookmakers.byFixture(18535517).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/bookmakers/fixtures/18535517', {
+      params: {}
+    });
+  });
+});
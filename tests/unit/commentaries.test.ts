@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('CommentariesResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all commentaries', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.commentaries.all().include(['player']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/commentaries', {
+      params: { include: 'player' }
+    });
+  });
+
+  test('should fetch the commentaries of a fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.commentaries.byFixture(18535517).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/commentaries/fixtures/18535517', {
+      params: {}
+    });
+  });
+
+  test('should return the fixture timeline ordered by minute and extra minute', async () => {
+    const line = (id: number, minute: number, extra_minute: number | null, order: number) => ({
+      id,
+      fixture_id: 18535517,
+      player_id: null,
+      comment: `Line ${id}`,
+      minute,
+      extra_minute,
+      is_goal: false,
+      is_important: false,
+      order
+    });
+    mockAxiosInstance.get
+      .mockResolvedValueOnce({
+        data: createMockResponse([line(1, 90, 2, 1), line(2, 45, 1, 1)], {
+          pagination: { has_more: true }
+        })
+      })
+      .mockResolvedValueOnce({
+        data: createMockResponse([line(3, 45, null, 2), line(4, 90, null, 1)])
+      });
+
+    const lines = await client.commentaries.timeline(18535517, { include: ['player'] });
+
+    expect(mockAxiosInstance.get).toHaveBeenLastCalledWith(
+      '/football/commentaries/fixtures/18535517',
+      { params: { include: 'player', page: 2 } }
+    );
+    expect(lines.map(comment => comment.id)).toEqual([3, 2, 4, 1]);
+  });
+});
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockCountry, createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Core API resources', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  describe('CountriesResource', () => {
+    test('should fetch all countries', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([createMockCountry()])
+      });
+
+      const response = await client.core.countries.all().include(['continent']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/countries', {
+        params: { include: 'continent' }
+      });
+      expect(response.data[0].name).toBe('England');
+    });
+
+    test('should fetch country by ID', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: createMockCountry() } });
+
+      const response = await client.core.countries.byId(462).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/countries/462', { params: {} });
+      expect(response.data.iso3).toBe('ENG');
+    });
+
+    test('should search countries by name', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.core.countries.search('Ivory Coast').get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/countries/search/Ivory%20Coast', {
+        params: {}
+      });
+    });
+  });
+
+  describe('ContinentsResource', () => {
+    test('should fetch continent by ID with countries', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { data: { id: 1, name: 'Europe', code: 'EU' } }
+      });
+
+      const response = await client.core.continents.byId(1).include(['countries']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/continents/1', {
+        params: { include: 'countries' }
+      });
+      expect(response.data.code).toBe('EU');
+    });
+  });
+
+  describe('RegionsResource', () => {
+    test('should fetch all regions', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.core.regions.all().page(2).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/regions', {
+        params: { page: 2 }
+      });
+    });
+  });
+
+  describe('CitiesResource', () => {
+    test('should search cities by name', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([{ id: 60449, name: 'Manchester', country_id: 462 }])
+      });
+
+      const response = await client.core.cities.search('Manchester').include(['region']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/cities/search/Manchester', {
+        params: { include: 'region' }
+      });
+      expect(response.data[0].id).toBe(60449);
+    });
+  });
+
+  describe('TypesResource', () => {
+    test('should fetch type by ID', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { data: { id: 52, name: 'Goal', code: 'goal', developer_name: 'GOAL' } }
+      });
+
+      const response = await client.core.types.byId(52).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/types/52', { params: {} });
+      expect(response.data.developer_name).toBe('GOAL');
+    });
+
+    test('should fetch types grouped by entity', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { data: { Fixture: [{ id: 52, name: 'Goal' }] } }
+      });
+
+      const response = await client.core.types.entities().get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/core/types/entities', { params: {} });
+      expect(response.data.Fixture[0].id).toBe(52);
+    });
+  });
+});
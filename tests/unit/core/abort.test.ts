@@ -0,0 +1,146 @@
+import { AbortError, SportMonksClient, TransportError } from '../../../src';
+import { sleep } from '../../../src/core/abort';
+import { RateLimiter } from '../../../src/core/rate-limiter';
+import { TransportRequest } from '../../../src/core/transport';
+
+/**
+ * A transport that never responds until the request signal is aborted
+ */
+const hangingTransport = () => ({
+  get: jest.fn(
+    (request: TransportRequest) =>
+      new Promise<never>((_resolve, reject) => {
+        request.signal?.addEventListener('abort', () =>
+          reject(new TransportError('canceled', undefined, undefined, 'ERR_CANCELED'))
+        );
+      })
+  )
+});
+
+describe('sleep', () => {
+  test('should reject early when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = sleep(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('RateLimiter', () => {
+  test('should stop waiting for the window when aborted', async () => {
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', {
+      remaining: 0,
+      resets_in_seconds: 60,
+      requested_entity: 'Fixture'
+    });
+    const controller = new AbortController();
+
+    const pending = limiter.acquire('/football/fixtures', controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('QueryBuilder cancellation', () => {
+  test('should reject with AbortError and the request context', async () => {
+    const transport = hangingTransport();
+    const client = new SportMonksClient('test-key', { transport });
+    const controller = new AbortController();
+
+    const pending = client.teams.byId(1).signal(controller.signal).get();
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+    const error = await pending.catch(e => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.retryable).toBe(false);
+    expect(error.request.path).toBe('/football/teams/1');
+    expect(transport.get.mock.calls[0][0].signal).toBe(controller.signal);
+  });
+
+  test('should not send requests with an already aborted signal', async () => {
+    const get = jest.fn();
+    const client = new SportMonksClient('test-key', { transport: { get } });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.teams.byId(1).signal(controller.signal).get()).rejects.toBeInstanceOf(
+      AbortError
+    );
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  test('should cancel pending retries', async () => {
+    const get = jest.fn().mockRejectedValue(new TransportError('failed', 503));
+    const client = new SportMonksClient('test-key', {
+      transport: { get },
+      retry: { maxRetries: 3, retryDelay: 60000 }
+    });
+    const controller = new AbortController();
+
+    const pending = client.teams.byId(1).signal(controller.signal).get();
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop getAll pagination', async () => {
+    const controller = new AbortController();
+    const get = jest.fn(async () => {
+      controller.abort();
+      return { status: 200, data: { data: [{ id: 1 }], pagination: { has_more: true } } as any };
+    });
+    const client = new SportMonksClient('test-key', { transport: { get } });
+
+    await expect(client.teams.all().signal(controller.signal).getAll()).rejects.toBeInstanceOf(
+      AbortError
+    );
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not share in-flight requests that have their own signal', async () => {
+    const get = jest.fn(async () => ({ status: 200, data: { data: { id: 1 } } as any }));
+    const client = new SportMonksClient('test-key', { transport: { get } });
+    const controller = new AbortController();
+
+    await Promise.all([
+      client.teams.byId(1).get(),
+      client.teams.byId(1).signal(controller.signal).get()
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('QueryBuilder options', () => {
+  test('should pass the timeout to the transport', async () => {
+    const get = jest.fn(async () => ({ status: 200, data: { data: [] } as any }));
+    const client = new SportMonksClient('test-key', { transport: { get } });
+
+    await client.teams.all().options({ timeout: 5000 }).get();
+
+    expect(get).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
+  });
+
+  test('should override the client retry options', async () => {
+    const get = jest.fn().mockRejectedValue(new TransportError('failed', 503));
+    const client = new SportMonksClient('test-key', {
+      transport: { get },
+      retry: { maxRetries: 3, retryDelay: 1 }
+    });
+
+    await expect(
+      client.teams
+        .all()
+        .options({ retry: { maxRetries: 0 } })
+        .get()
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,7 @@
 import axios, { AxiosError, AxiosInstance } from 'axios';
 import { BaseResource } from '../../../src/core/base-resource';
 import { SportMonksError } from '../../../src/core/errors';
+import { AxiosTransport } from '../../../src/core/axios-transport';
 
 jest.mock('axios');
 
@@ -24,7 +25,7 @@ describe('BaseResource', () => {
 
   describe('constructor', () => {
     test('should initialize with default values', () => {
-      resource = new TestResource(mockClient, '/test');
+      resource = new TestResource(new AxiosTransport(mockClient), '/test');
       expect(resource['basePath']).toBe('/test');
       expect(resource['includeSeparator']).toBe(';');
       expect(resource['retryOptions']).toEqual({
@@ -37,7 +38,7 @@ describe('BaseResource', () => {
     });
 
     test('should accept custom retry options', () => {
-      resource = new TestResource(mockClient, '/test', ',', {
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ',', {
         maxRetries: 3,
         retryDelay: 2000,
         maxRetryDelay: 60000,
@@ -58,7 +59,7 @@ describe('BaseResource', () => {
 
   describe('request method', () => {
     beforeEach(() => {
-      resource = new TestResource(mockClient, '/test');
+      resource = new TestResource(new AxiosTransport(mockClient), '/test');
     });
 
     test('should make successful request', async () => {
@@ -91,7 +92,7 @@ describe('BaseResource', () => {
     });
 
     test('should retry on network errors when configured', async () => {
-      resource = new TestResource(mockClient, '/test', ';', { maxRetries: 2 });
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ';', { maxRetries: 2 });
 
       const networkError = {
         isAxiosError: true,
@@ -208,7 +209,7 @@ describe('BaseResource', () => {
     });
 
     test('should retry on rate limit when configured', async () => {
-      resource = new TestResource(mockClient, '/test', ';', {
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ';', {
         maxRetries: 1,
         retryOnRateLimit: true,
         retryDelay: 10 // Very short delay for testing
@@ -234,7 +235,7 @@ describe('BaseResource', () => {
     });
 
     test('should not retry on rate limit when disabled', async () => {
-      resource = new TestResource(mockClient, '/test', ';', {
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ';', {
         maxRetries: 1,
         retryOnRateLimit: false
       });
@@ -256,7 +257,7 @@ describe('BaseResource', () => {
     });
 
     test('should retry on configured status codes', async () => {
-      resource = new TestResource(mockClient, '/test', ';', {
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ';', {
         maxRetries: 1,
         retryDelay: 10,
         retryStatusCodes: [502, 503]
@@ -282,7 +283,7 @@ describe('BaseResource', () => {
     });
 
     test('should handle multiple retries', async () => {
-      resource = new TestResource(mockClient, '/test', ';', {
+      resource = new TestResource(new AxiosTransport(mockClient), '/test', ';', {
         maxRetries: 2,
         retryDelay: 10
       });
@@ -0,0 +1,208 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SportMonksClient } from '../../../src';
+import {
+  CacheStore,
+  FileSystemCacheStore,
+  MemoryCacheStore,
+  ResponseCache
+} from '../../../src/core/cache';
+import { Transport } from '../../../src/core/transport';
+
+describe('MemoryCacheStore', () => {
+  test('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', { value: 1, expiresAt: Infinity });
+    store.set('b', { value: 2, expiresAt: Infinity });
+    store.get('a');
+    store.set('c', { value: 3, expiresAt: Infinity });
+
+    expect(store.size).toBe(2);
+    expect(store.get('a')?.value).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')?.value).toBe(3);
+  });
+
+  test('should return copies of cached values', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', { value: { data: [1] }, expiresAt: Infinity });
+
+    (store.get('a')!.value as any).data.push(2);
+
+    expect(store.get('a')!.value).toEqual({ data: [1] });
+  });
+});
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'sportmonks-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should persist, read and delete entries', async () => {
+    const store = new FileSystemCacheStore({ directory });
+
+    await store.set('/football/venues/5', { value: { data: { id: 5 } }, expiresAt: 123 });
+    expect(await store.get('/football/venues/5')).toEqual({
+      value: { data: { id: 5 } },
+      expiresAt: 123
+    });
+
+    await store.delete('/football/venues/5');
+    expect(await store.get('/football/venues/5')).toBeUndefined();
+  });
+
+  test('should clear all entries', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    await store.set('a', { value: 1, expiresAt: 1 });
+
+    await store.clear();
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
+
+describe('ResponseCache', () => {
+  test('should resolve TTLs per resource with overrides', () => {
+    const cache = new ResponseCache({ ttl: 1000, resourceTtls: { venues: 5000 } });
+
+    expect(cache.ttlFor('/football/livescores')).toBe(10000);
+    expect(cache.ttlFor('/football/venues')).toBe(5000);
+    expect(cache.ttlFor('/football/unknown')).toBe(1000);
+    expect(cache.ttlFor('/football/venues', 42)).toBe(42);
+  });
+
+  test('should ignore expired entries', async () => {
+    const cache = new ResponseCache();
+    await cache.set('key', 'value', 1000);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+
+    expect(await cache.get('key')).toBeUndefined();
+    jest.restoreAllMocks();
+  });
+
+  test('should namespace keys with the key prefix', async () => {
+    const store = new MemoryCacheStore();
+    const first = new ResponseCache({ store, keyPrefix: 'first:' });
+    const second = new ResponseCache({ store, keyPrefix: 'second:' });
+
+    await first.set('key', 'value', 1000);
+
+    expect(await first.get('key')).toBe('value');
+    expect(await second.get('key')).toBeUndefined();
+    expect(store.get('first:key')?.value).toBe('value');
+  });
+});
+
+describe('SportMonksClient caching', () => {
+  let get: jest.Mock;
+  let transport: Transport;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({ status: 200, data: { data: [{ id: 1 }] } }));
+    transport = { get };
+  });
+
+  test('should not cache when caching is disabled', async () => {
+    const client = new SportMonksClient('test-key', { transport });
+
+    await client.leagues.all().get();
+    await client.leagues.all().get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should serve repeated queries from the cache', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    const first = await client.leagues.all().include(['country']).get();
+    const second = await client.leagues.all().include(['country']).get();
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+
+  test('should use separate entries for different params', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    await client.leagues.all().page(1).get();
+    await client.leagues.all().page(2).get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should bypass the cache with noCache()', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    await client.venues.byId(5).get();
+    await client.venues.byId(5).noCache().get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should honour per-query TTL overrides', async () => {
+    const store = new MemoryCacheStore();
+    const setSpy = jest.spyOn(store, 'set');
+    const client = new SportMonksClient('test-key', { transport, cache: { store } });
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await client.venues.byId(5).cache({ ttl: 500 }).get();
+    jest.restoreAllMocks();
+
+    expect(setSpy.mock.calls[0][1].expiresAt).toBe(now + 500);
+  });
+
+  test('should not cache failed requests', async () => {
+    get.mockRejectedValueOnce(new Error('boom'));
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    await expect(client.teams.byId(1).get()).rejects.toThrow('boom');
+    await client.teams.byId(1).get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should clear the cache when the API key changes', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    await client.leagues.all().get();
+    client.setApiKey('other-key');
+    await client.leagues.all().get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not fail requests when the cache store fails', async () => {
+    const store: CacheStore = {
+      get: async () => Promise.reject(new Error('EACCES')),
+      set: async () => Promise.reject(new Error('ENOSPC')),
+      delete: () => undefined,
+      clear: () => undefined
+    };
+    const client = new SportMonksClient('test-key', { transport, cache: { store } });
+
+    const response = await client.leagues.all().get();
+
+    expect(response.data).toEqual([{ id: 1 }]);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should clear the cache', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+
+    await client.leagues.all().get();
+    await client.clearCache();
+    await client.leagues.all().get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,151 @@
+import { SportMonksClient } from '../../../src';
+import { InflightRequests } from '../../../src/core/inflight';
+import { canonicalizeParams, createRequestKey } from '../../../src/core/request-key';
+import { Transport } from '../../../src/core/transport';
+
+describe('createRequestKey', () => {
+  test('should sort params and drop empty values', () => {
+    expect(
+      createRequestKey('/football/leagues', { page: 2, include: 'country', select: undefined })
+    ).toBe('/football/leagues?include=country&page=2');
+  });
+
+  test('should return the path when there are no params', () => {
+    expect(createRequestKey('/football/venues/5', {})).toBe('/football/venues/5');
+  });
+
+  test('should normalize include order', () => {
+    expect(createRequestKey('/football/fixtures/1', { include: 'scores;participants' })).toBe(
+      createRequestKey('/football/fixtures/1', { include: 'participants;scores' })
+    );
+  });
+});
+
+describe('canonicalizeParams', () => {
+  test('should sort and de-duplicate includes with the given separator', () => {
+    expect(canonicalizeParams({ include: 'scores,participants,scores' }, ',')).toEqual({
+      include: 'participants,scores'
+    });
+  });
+});
+
+describe('InflightRequests', () => {
+  test('should share a pending promise and release it when settled', async () => {
+    const inflight = new InflightRequests();
+    const fn = jest.fn(async () => 'result');
+
+    const [a, b] = await Promise.all([inflight.run('key', fn), inflight.run('key', fn)]);
+
+    expect(a).toBe('result');
+    expect(b).toBe('result');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(inflight.size).toBe(0);
+  });
+
+  test('should give every caller its own copy of the result', async () => {
+    const inflight = new InflightRequests();
+    const fn = async () => ({ data: { id: 1 } });
+
+    const [a, b] = await Promise.all([inflight.run('key', fn), inflight.run('key', fn)]);
+    a.data.id = 2;
+
+    expect(b).toEqual({ data: { id: 1 } });
+    expect(a).not.toBe(b);
+  });
+
+  test('should release failed requests', async () => {
+    const inflight = new InflightRequests();
+
+    await expect(
+      inflight.run('key', async () => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+
+    expect(inflight.size).toBe(0);
+  });
+});
+
+describe('SportMonksClient request de-duplication', () => {
+  let get: jest.Mock;
+  let transport: Transport;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({ status: 200, data: { data: { id: 1 } } }));
+    transport = { get };
+  });
+
+  test('should coalesce identical concurrent requests', async () => {
+    const client = new SportMonksClient('test-key', { transport });
+
+    const [a, b] = await Promise.all([
+      client.fixtures.byId(1).include(['scores', 'participants']).get(),
+      client.fixtures.byId(1).include(['participants', 'scores']).get()
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(a).toEqual(b);
+  });
+
+  test('should not coalesce different requests', async () => {
+    const client = new SportMonksClient('test-key', { transport });
+
+    await Promise.all([
+      client.fixtures.byId(1).include(['scores']).get(),
+      client.fixtures.byId(2).include(['scores']).get()
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should send sequential requests separately', async () => {
+    const client = new SportMonksClient('test-key', { transport });
+
+    await client.fixtures.byId(1).get();
+    await client.fixtures.byId(1).get();
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should allow opting out per query', async () => {
+    const client = new SportMonksClient('test-key', { transport });
+
+    await Promise.all([client.fixtures.byId(1).get(), client.fixtures.byId(1).dedupe(false).get()]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not share requests that bypass the cache', async () => {
+    const client = new SportMonksClient('test-key', { transport, cache: true });
+    await client.fixtures.byId(1).get();
+    get.mockResolvedValueOnce({ status: 200, data: { data: { id: 1, name: 'fresh' } } });
+
+    const [cached, fresh] = await Promise.all([
+      client.fixtures.byId(1).get(),
+      client.fixtures.byId(1).noCache().get()
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(cached.data).toEqual({ id: 1 });
+    expect(fresh.data).toEqual({ id: 1, name: 'fresh' });
+  });
+
+  test('should allow disabling de-duplication for the client', async () => {
+    const client = new SportMonksClient('test-key', { transport, dedupe: false });
+
+    await Promise.all([client.fixtures.byId(1).get(), client.fixtures.byId(1).get()]);
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reject every caller when the shared request fails', async () => {
+    get.mockRejectedValueOnce(new Error('boom'));
+    const client = new SportMonksClient('test-key', { transport });
+
+    const results = await Promise.allSettled([
+      client.fixtures.byId(1).get(),
+      client.fixtures.byId(1).get()
+    ]);
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+  });
+});
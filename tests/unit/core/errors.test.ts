@@ -0,0 +1,138 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  SportMonksClient,
+  SportMonksError,
+  SubscriptionError,
+  TimeoutError,
+  TransportError,
+  ValidationError,
+  redactParams
+} from '../../../src';
+import { validateDateFormat } from '../../../src/utils/validators';
+
+describe('Error hierarchy', () => {
+  let client: SportMonksClient;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    get = jest.fn();
+    client = new SportMonksClient('test-key', { transport: { get } });
+  });
+
+  const failWith = async (error: Error) => {
+    get.mockRejectedValueOnce(error);
+    return client.teams
+      .byId(1)
+      .include(['country'])
+      .get()
+      .catch(e => e);
+  };
+
+  test.each([
+    [401, AuthenticationError, false],
+    [403, SubscriptionError, false],
+    [404, NotFoundError, false],
+    [400, ValidationError, false],
+    [422, ValidationError, false],
+    [429, RateLimitError, true],
+    [500, SportMonksError, true]
+  ])('should map HTTP %i to %p', async (status, ErrorClass, retryable) => {
+    const error = await failWith(new TransportError('failed', status, { message: 'API says no' }));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(SportMonksError);
+    expect(error.statusCode).toBe(status);
+    expect(error.apiMessage).toBe('API says no');
+    expect(error.retryable).toBe(retryable);
+  });
+
+  test('should expose resetsInSeconds on rate limit errors', async () => {
+    const error = await failWith(
+      new TransportError('failed', 429, { rate_limit: { resets_in_seconds: 120 } })
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetsInSeconds).toBe(120);
+    expect(error.message).toBe('Rate limit exceeded. Resets in 120 seconds.');
+  });
+
+  test('should map missing responses to NetworkError', async () => {
+    const error = await failWith(new TransportError('socket hang up'));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(error.retryable).toBe(true);
+  });
+
+  test.each(['ECONNABORTED', 'ETIMEDOUT'])('should map %s to TimeoutError', async code => {
+    const error = await failWith(new TransportError('timeout', undefined, undefined, code));
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should attach the request context', async () => {
+    const error = await failWith(new TransportError('failed', 404));
+
+    expect(error.request).toEqual({ path: '/football/teams/1', params: { include: 'country' } });
+  });
+
+  test('should redact the API token from the request context', async () => {
+    client.use({
+      beforeRequest: context => {
+        context.params.api_token = 'secret';
+      }
+    });
+
+    const error = await failWith(new TransportError('failed', 404));
+
+    expect(error.request.params.api_token).toBe('[REDACTED]');
+  });
+
+  test('should attach the request context to client-side rate limit errors', async () => {
+    client = new SportMonksClient('test-key', { transport: { get }, rateLimit: { maxWait: 0 } });
+    get.mockResolvedValueOnce({
+      status: 200,
+      data: {
+        data: [],
+        rate_limit: { remaining: 0, resets_in_seconds: 60, requested_entity: 'Team' }
+      }
+    });
+    await client.teams.all().get();
+
+    const error = await client.teams
+      .all()
+      .get()
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.resetsInSeconds).toBe(60);
+    expect(error.request.path).toBe('/football/teams');
+  });
+});
+
+describe('ValidationError', () => {
+  test('should be thrown by validators', () => {
+    expect(() => validateDateFormat('15-01-2024')).toThrow(ValidationError);
+  });
+
+  test('should be thrown by resource input checks', () => {
+    const client = new SportMonksClient('test-key', { transport: { get: jest.fn() } });
+
+    expect(() => client.fixtures.byDate('tomorrow')).toThrow(ValidationError);
+    expect(() => client.venues.search('ab')).toThrow(ValidationError);
+  });
+});
+
+describe('redactParams', () => {
+  test('should not modify the original params', () => {
+    const params = { api_token: 'secret', page: 1 };
+
+    expect(redactParams(params)).toEqual({ api_token: '[REDACTED]', page: 1 });
+    expect(params.api_token).toBe('secret');
+  });
+});
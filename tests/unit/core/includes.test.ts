@@ -0,0 +1,167 @@
+import { SportMonksClient, WithIncludes, Fixture } from '../../../src';
+
+describe('Include-aware response types', () => {
+  let client: SportMonksClient;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({
+      status: 200,
+      data: {
+        data: {
+          id: 1,
+          name: 'Celtic vs Rangers',
+          participants: [{ id: 53, name: 'Celtic' }],
+          lineups: [{ id: 7, player: { id: 9, display_name: 'Kyogo' } }],
+          league: { id: 501, name: 'Premiership' }
+        }
+      } as any
+    }));
+    client = new SportMonksClient('test-key', { transport: { get } });
+  });
+
+  test('should make included relationships non-optional', async () => {
+    const response = await client.fixtures
+      .byId(1)
+      .include(['participants', 'lineups.player'])
+      .include('league:name')
+      .get();
+
+    const names: string[] = response.data.participants.map(team => team.name);
+    const player: string = response.data.lineups[0].player.display_name;
+
+    expect(names).toEqual(['Celtic']);
+    expect(player).toBe('Kyogo');
+    expect(response.data.league.name).toBe('Premiership');
+    expect(get.mock.calls[0][0].params).toEqual({
+      include: 'participants;lineups.player;league:name'
+    });
+  });
+
+  test('should narrow items of paginated responses', async () => {
+    get.mockResolvedValueOnce({ status: 200, data: { data: [{ id: 1, venue: { id: 2 } }] } });
+
+    const response = await client.fixtures.all().include('venue').get();
+
+    expect(response.data[0].venue.id).toBe(2);
+  });
+
+  test('should narrow the items returned by getAll', async () => {
+    get.mockResolvedValueOnce({ status: 200, data: { data: [{ id: 1, venue: { id: 2 } }] } });
+
+    const fixtures = await client.fixtures.all().include('venue').getAll();
+    const venueId: number = fixtures[0].venue.id;
+
+    expect(venueId).toBe(2);
+  });
+
+  test('should reject unknown include names', () => {
+    const fixtures = client.fixtures.byId(1);
+
+    // @ts-expect-error unknown includes don't compile
+    expect(() => fixtures.include(['participant'])).not.toThrow();
+    // @ts-expect-error unknown includes don't compile
+    expect(() => client.venues.byId(1).include('fixture.league')).not.toThrow();
+  });
+
+  test('should accept the includes of the API entity docs', () => {
+    expect(() => {
+      client.teams.byId(1).include(['players', 'coaches', 'seasons', 'upcoming']);
+      client.players.byId(1).include(['teams', 'nationality', 'lineups']);
+      client.fixtures.byId(1).include(['sidelined', 'formations', 'referees', 'weatherReport']);
+      client.leagues.byId(1).include(['upcoming', 'today', 'currentSeason']);
+    }).not.toThrow();
+  });
+
+  test('should reject v2 include names', () => {
+    // @ts-expect-error v2 includes don't compile
+    expect(() => client.fixtures.byId(1).include(['localteam', 'visitorteam'])).not.toThrow();
+    // @ts-expect-error fields that aren't relationships don't compile
+    expect(() => client.teams.byId(1).include(['detailedPosition'])).not.toThrow();
+  });
+
+  test('should accept includes built at runtime', async () => {
+    const includes: string[] = ['participants', 'scores'];
+
+    const response = await client.fixtures.byId(1).include(includes).get();
+    const fixture: Fixture = response.data;
+
+    expect(fixture.participants).toBeDefined();
+  });
+
+  test('should describe entities with includes', () => {
+    const fixture: WithIncludes<Fixture, 'league'> = {
+      league: { id: 501, name: 'Premiership' }
+    } as WithIncludes<Fixture, 'league'>;
+
+    expect(fixture.league.name).toBe('Premiership');
+  });
+
+  describe('field selection', () => {
+    test('should narrow the entity to the selected fields and id', async () => {
+      get.mockResolvedValueOnce({ status: 200, data: { data: { id: 8, name: 'Premier League' } } });
+
+      const response = await client.leagues.byId(8).select(['name']).get();
+      const league: { id: number; name: string } = response.data;
+
+      // @ts-expect-error fields that weren't selected aren't in the response type
+      expect(response.data.short_code).toBeUndefined();
+      expect(league).toEqual({ id: 8, name: 'Premier League' });
+      expect(get.mock.calls[0][0].params).toEqual({ select: 'name' });
+    });
+
+    test('should narrow relations selected with includeFields', async () => {
+      get.mockResolvedValueOnce({
+        status: 200,
+        data: { data: { id: 1, venue: { id: 2, capacity: 60000 } } }
+      });
+
+      const response = await client.fixtures
+        .byId(1)
+        .includeFields('venue', ['capacity'])
+        .include('league')
+        .get();
+
+      expect(response.data.venue.capacity).toBe(60000);
+      // @ts-expect-error fields that weren't selected aren't in the response type
+      expect(response.data.venue.name).toBeUndefined();
+      expect(get.mock.calls[0][0].params).toEqual({ include: 'venue:capacity;league' });
+    });
+
+    test('should narrow relations selected with withIncludes', async () => {
+      const response = await client.fixtures
+        .byId(1)
+        .withIncludes({ participants: true, 'lineups.player': ['display_name'] })
+        .get();
+
+      const player: string = response.data.lineups[0].player.display_name;
+      const lineupId: number = response.data.lineups[0].id;
+
+      expect(player).toBe('Kyogo');
+      expect(lineupId).toBe(7);
+      expect(get.mock.calls[0][0].params).toEqual({
+        include: 'participants;lineups.player:display_name'
+      });
+    });
+
+    test('should reject unknown fields', () => {
+      const fixtures = client.fixtures.byId(1);
+
+      // @ts-expect-error unknown fields don't compile
+      expect(() => fixtures.select(['nme'])).not.toThrow();
+      // @ts-expect-error unknown fields don't compile
+      expect(() => fixtures.includeFields('venue', ['seats'])).not.toThrow();
+      // @ts-expect-error unknown fields don't compile
+      expect(() => fixtures.withIncludes({ league: ['title'] })).not.toThrow();
+    });
+
+    test('should accept fields built at runtime', async () => {
+      const fields: string[] = ['name', 'starting_at'];
+
+      const response = await client.fixtures.byId(1).select(fields).get();
+      const fixture: Fixture = response.data;
+
+      expect(fixture.name).toBe('Celtic vs Rangers');
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { AbortError, SportMonksClient, ValidationError } from '../../../src';
+import { TransportRequest } from '../../../src/core/transport';
+
+const PER_PAGE = 2;
+const TOTAL_PAGES = 4;
+
+/**
+ * A transport serving TOTAL_PAGES pages of PER_PAGE teams each
+ */
+const pagedTransport = () => ({
+  get: jest.fn(async (request: TransportRequest) => {
+    const page = Number(request.params.page);
+    const data = Array.from({ length: PER_PAGE }, (_, i) => ({
+      id: (page - 1) * PER_PAGE + i + 1
+    }));
+    return {
+      status: 200,
+      data: {
+        data: page > TOTAL_PAGES ? [] : data,
+        pagination: {
+          count: page > TOTAL_PAGES ? 0 : PER_PAGE,
+          per_page: PER_PAGE,
+          current_page: page,
+          next_page: page < TOTAL_PAGES ? page + 1 : null,
+          has_more: page < TOTAL_PAGES
+        }
+      } as any
+    };
+  })
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+const pagesOf = (get: jest.Mock) => get.mock.calls.map(call => call[0].params.page);
+
+describe('QueryBuilder.iterate', () => {
+  let transport: ReturnType<typeof pagedTransport>;
+  let client: SportMonksClient;
+
+  beforeEach(() => {
+    transport = pagedTransport();
+    client = new SportMonksClient('test-key', { transport });
+  });
+
+  test('should stream the items of every page in order', async () => {
+    const ids: number[] = [];
+    for await (const team of client.teams.all().include(['country']).iterate()) {
+      ids.push(team.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(pagesOf(transport.get)).toEqual([1, 2, 3, 4]);
+    expect(transport.get.mock.calls[0][0].params).toEqual({ include: 'country', page: 1 });
+  });
+
+  test('should request pages as they are read', async () => {
+    const iterator = client.teams.all().iterate();
+
+    await iterator.next();
+    await iterator.next();
+    expect(transport.get).toHaveBeenCalledTimes(1);
+
+    await iterator.next();
+    expect(transport.get).toHaveBeenCalledTimes(2);
+    await iterator.return();
+  });
+
+  test('should stop after maxPages', async () => {
+    const ids: number[] = [];
+    for await (const team of client.teams.all().iterate({ maxPages: 2 })) {
+      ids.push(team.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4]);
+    expect(pagesOf(transport.get)).toEqual([1, 2]);
+  });
+
+  test('should stop after maxItems without requesting further pages', async () => {
+    const ids: number[] = [];
+    for await (const team of client.teams.all().iterate({ maxItems: 3, prefetch: 3 })) {
+      ids.push(team.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3]);
+    expect(pagesOf(transport.get)).toEqual([1, 2]);
+  });
+
+  test('should prefetch pages once the first page shows there are more', async () => {
+    const iterator = client.teams.all().iterate({ prefetch: 2 });
+
+    await iterator.next();
+    await flush();
+    expect(pagesOf(transport.get)).toEqual([1, 2, 3]);
+
+    const ids = [1];
+    for await (const team of { [Symbol.asyncIterator]: () => iterator }) {
+      ids.push(team.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    // The API only reports whether more pages follow, so page 5 is requested speculatively
+    expect(pagesOf(transport.get)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('should cancel prefetched pages when iteration stops early', async () => {
+    const signals: AbortSignal[] = [];
+    transport.get.mockImplementation((request: TransportRequest) => {
+      if (request.params.page === 1) {
+        return Promise.resolve({
+          status: 200,
+          data: { data: [{ id: 1 }], pagination: { per_page: 1, has_more: true } } as any
+        });
+      }
+      signals.push(request.signal!);
+      return new Promise<never>(() => undefined);
+    });
+
+    for await (const team of client.teams.all().iterate({ prefetch: 2 })) {
+      expect(team.id).toBe(1);
+      await flush();
+      break;
+    }
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+  });
+
+  test('should prefetch without cancellation where AbortController is missing', async () => {
+    const { AbortController } = global;
+    const ids: number[] = [];
+    try {
+      (global as any).AbortController = undefined;
+      for await (const team of client.teams.all().iterate({ prefetch: 2 })) {
+        ids.push(team.id);
+      }
+    } finally {
+      global.AbortController = AbortController;
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(transport.get.mock.calls[0][0].signal).toBeUndefined();
+  });
+
+  test('should pass the signal to each page and stop when it is aborted', async () => {
+    const controller = new AbortController();
+    const iterator = client.teams.all().signal(controller.signal).iterate();
+
+    await iterator.next();
+    await iterator.next();
+    controller.abort();
+
+    expect(transport.get.mock.calls[0][0].signal).toBe(controller.signal);
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+    expect(transport.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject prefetched pages with AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const iterator = client.teams.all().signal(controller.signal).iterate({ prefetch: 1 });
+
+    await iterator.next();
+    await iterator.next();
+    controller.abort();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('should surface page errors when the page is read', async () => {
+    transport.get.mockImplementation(async (request: TransportRequest) => {
+      if (request.params.page === 2) {
+        throw new Error('Page failed');
+      }
+      return {
+        status: 200,
+        data: { data: [{ id: 1 }], pagination: { per_page: 1, has_more: true } } as any
+      };
+    });
+    const ids: number[] = [];
+
+    await expect(
+      (async () => {
+        for await (const team of client.teams
+          .all()
+          .options({ retry: { maxRetries: 0 } })
+          .iterate({ prefetch: 2 })) {
+          ids.push(team.id);
+        }
+      })()
+    ).rejects.toThrow('Page failed');
+    expect(ids).toEqual([1]);
+  });
+
+  test('should reject invalid options', async () => {
+    await expect(client.teams.all().iterate({ maxPages: 0 }).next()).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(client.teams.all().iterate({ prefetch: -1 }).next()).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(transport.get).not.toHaveBeenCalled();
+  });
+
+  test('should accept the same limits in getAll', async () => {
+    const teams = await client.teams.all().getAll({ maxItems: 5 });
+
+    expect(teams).toHaveLength(5);
+    expect(pagesOf(transport.get)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,147 @@
+import { SportMonksClient, SportMonksError } from '../../../src';
+import { TransportError } from '../../../src/core/errors';
+import { createLoggingMiddleware } from '../../../src/core/middleware';
+import { Transport, TransportRequest } from '../../../src/core/transport';
+
+describe('Middleware', () => {
+  let requests: TransportRequest[];
+  let transport: Transport;
+  let client: SportMonksClient;
+
+  beforeEach(() => {
+    requests = [];
+    transport = {
+      get: jest.fn(async (request: TransportRequest) => {
+        requests.push(request);
+        if (request.path.endsWith('/404')) {
+          throw new TransportError('Request failed', 404, { message: 'Not found' });
+        }
+        return { status: 200, data: { data: [{ id: 1, name: 'Premier League' }] } as any };
+      })
+    };
+    client = new SportMonksClient('test-key', { transport });
+  });
+
+  test('should expose the resolved endpoint and params to beforeRequest', async () => {
+    const beforeRequest = jest.fn();
+    client.use({ beforeRequest });
+
+    await client.leagues.byCountry(462).include(['country']).get();
+
+    expect(beforeRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        basePath: '/football/leagues',
+        endpoint: '/countries/462',
+        path: '/football/leagues/countries/462',
+        params: { include: 'country' }
+      })
+    );
+  });
+
+  test('should let beforeRequest inject headers and params', async () => {
+    client.use({
+      beforeRequest: context => {
+        context.headers['X-Request-Id'] = 'abc';
+        context.params.locale = 'nl';
+      }
+    });
+
+    await client.leagues.all().get();
+
+    expect(requests[0]).toEqual({
+      path: '/football/leagues',
+      params: { locale: 'nl' },
+      headers: { 'X-Request-Id': 'abc' }
+    });
+  });
+
+  test('should let afterResponse rewrite the parsed body', async () => {
+    client.use({
+      afterResponse: body => ({ ...body, data: body.data.map((l: any) => l.name) })
+    });
+
+    const response = await client.leagues.all().get();
+
+    expect(response.data).toEqual(['Premier League']);
+  });
+
+  test('should run hooks in onion order', async () => {
+    const calls: string[] = [];
+    client
+      .use({
+        beforeRequest: () => void calls.push('a:before'),
+        afterResponse: () => void calls.push('a:after')
+      })
+      .use({
+        beforeRequest: () => void calls.push('b:before'),
+        afterResponse: () => void calls.push('b:after')
+      });
+
+    await client.leagues.all().get();
+
+    expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+  });
+
+  test('should pass the final error to onError and allow replacing it', async () => {
+    const onError = jest.fn();
+    client.use({ onError }).use({
+      onError: error => {
+        throw new Error(`wrapped: ${error.message}`);
+      }
+    });
+
+    await expect(client.leagues.byId(404).get()).rejects.toThrow('wrapped: Not found');
+    expect(onError.mock.calls[0][0].message).toBe('wrapped: Not found');
+  });
+
+  test('should receive SportMonksError instances in onError', async () => {
+    const onError = jest.fn();
+    client.use({ onError });
+
+    await expect(client.teams.byId(404).get()).rejects.toThrow(SportMonksError);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(SportMonksError);
+    expect(onError.mock.calls[0][1].path).toBe('/football/teams/404');
+  });
+
+  test('should stop running an ejected middleware', async () => {
+    const middleware = { beforeRequest: jest.fn() };
+    client.use(middleware);
+
+    expect(client.eject(middleware)).toBe(true);
+    await client.leagues.all().get();
+
+    expect(middleware.beforeRequest).not.toHaveBeenCalled();
+    expect(client.eject(middleware)).toBe(false);
+  });
+
+  test('should be shared across resources', async () => {
+    const beforeRequest = jest.fn();
+    client.use({ beforeRequest });
+
+    await client.leagues.all().get();
+    await client.venues.all().get();
+
+    expect(beforeRequest).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createLoggingMiddleware', () => {
+  test('should log status, message and path on errors', async () => {
+    const logger = { error: jest.fn() };
+    const middleware = createLoggingMiddleware(logger);
+
+    await middleware.onError!(new SportMonksError('Not found', 404, 'Team not found'), {
+      basePath: '/football/teams',
+      endpoint: '/1',
+      path: '/football/teams/1',
+      params: {},
+      headers: {}
+    });
+
+    expect(logger.error).toHaveBeenCalledWith('API Error:', {
+      status: 404,
+      message: 'Team not found',
+      url: '/football/teams/1'
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { SportMonksClient } from '../../../src';
+
+describe('API namespaces', () => {
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({ status: 200, data: { data: [] } }));
+  });
+
+  test('should use the football namespace by default', async () => {
+    const client = new SportMonksClient('test-key', { transport: { get } });
+
+    await client.leagues.all().get();
+
+    expect(get.mock.calls[0][0].path).toBe('/football/leagues');
+  });
+
+  test('should build sport resource paths from the sport option', async () => {
+    const client = new SportMonksClient('test-key', { transport: { get }, sport: 'cricket' });
+
+    await client.fixtures.byId(1).get();
+    await client.teams.all().get();
+
+    expect(get.mock.calls.map(call => call[0].path)).toEqual([
+      '/cricket/fixtures/1',
+      '/cricket/teams'
+    ]);
+  });
+
+  test('should keep core resources in the core namespace', async () => {
+    const client = new SportMonksClient('test-key', { transport: { get }, sport: 'cricket' });
+
+    await client.core.timezones.all().get();
+
+    expect(get.mock.calls[0][0].path).toBe('/core/timezones');
+  });
+
+  test('should share the middleware stack across families', async () => {
+    const client = new SportMonksClient('test-key', { transport: { get } });
+    const paths: string[] = [];
+    client.use({ beforeRequest: context => void paths.push(context.path) });
+
+    await client.core.timezones.all().get();
+    await client.venues.byId(5).get();
+
+    expect(paths).toEqual(['/core/timezones', '/football/venues/5']);
+  });
+});
@@ -0,0 +1,102 @@
+import { SportMonksClient } from '../../../src';
+import { createMockResponse } from '../../helpers/mock-data';
+
+describe('Immutable QueryBuilder', () => {
+  let client: SportMonksClient;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({ status: 200, data: { data: [] } }));
+    client = new SportMonksClient('test-key', { transport: { get } });
+  });
+
+  const params = () => get.mock.calls.map(call => call[0].params);
+
+  test('should return a new builder from every chaining method', () => {
+    const base = client.fixtures.all();
+
+    const chained = [
+      base.include(['participants']),
+      base.include('scores'),
+      base.includeFields('venue', ['name']),
+      base.withIncludes({ league: true }),
+      base.select(['name']),
+      base.filter('fixtureStates', 5),
+      base.filters({ fixtureStates: 5 }),
+      base.orderBy('starting_at'),
+      base.has(['odds']),
+      base.page(2),
+      base.limit(10),
+      base.perPage(10),
+      base.cache({ ttl: 1000 }),
+      base.noCache(),
+      base.dedupe(false),
+      base.signal(new AbortController().signal),
+      base.options({ timeout: 5000 }),
+      base.clone()
+    ];
+
+    chained.forEach(query => expect(query).not.toBe(base));
+  });
+
+  test('should leave the base query unchanged when deriving variants', async () => {
+    const base = client.fixtures.all().include(['participants']).filter('fixtureStates', 5);
+
+    await base.include(['scores']).page(2).get();
+    await base.orderBy('-starting_at').limit(10).get();
+    await base.get();
+
+    expect(params()).toEqual([
+      { include: 'participants;scores', filters: 'fixtureStates:5', page: 2 },
+      { include: 'participants', filters: 'fixtureStates:5', order: '-starting_at', per_page: 10 },
+      { include: 'participants', filters: 'fixtureStates:5' }
+    ]);
+  });
+
+  test('should send the same request when a builder is reused', async () => {
+    const query = client.fixtures.all().limit(25);
+
+    await query.get();
+    await query.get();
+
+    expect(params()).toEqual([{ per_page: 25 }, { per_page: 25 }]);
+  });
+
+  test('should not change the builder when fetching all pages', async () => {
+    get
+      .mockResolvedValueOnce({
+        status: 200,
+        data: createMockResponse([{ id: 1 }], { pagination: { has_more: true } })
+      })
+      .mockResolvedValueOnce({ status: 200, data: createMockResponse([{ id: 2 }]) });
+    const query = client.fixtures.all();
+
+    await query.getAll();
+    await query.get();
+
+    expect(params()).toEqual([{ page: 1 }, { page: 2 }, {}]);
+  });
+
+  test('should not repeat includes', async () => {
+    await client.fixtures
+      .byId(1)
+      .include('participants')
+      .include('participants')
+      .include(['participants', 'scores'])
+      .withIncludes({ scores: true })
+      .get();
+
+    expect(params()).toEqual([{ include: 'participants;scores' }]);
+  });
+
+  test('should keep request options of the base query', async () => {
+    const controller = new AbortController();
+    const base = client.fixtures.all().options({ retry: { maxRetries: 0 } });
+
+    const query = base.signal(controller.signal).clone().noCache();
+    controller.abort();
+
+    await expect(base.get()).resolves.toBeDefined();
+    await expect(query.get()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
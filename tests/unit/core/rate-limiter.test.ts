@@ -0,0 +1,134 @@
+import { SportMonksClient, SportMonksError } from '../../../src';
+import { RateLimiter } from '../../../src/core/rate-limiter';
+import { Transport } from '../../../src/core/transport';
+
+const rateLimit = (remaining: number, resets_in_seconds = 60, requested_entity = 'Fixture') => ({
+  remaining,
+  resets_in_seconds,
+  requested_entity
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should learn state from rate_limit blocks', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', rateLimit(42));
+
+    expect(limiter.entityFor('/football/fixtures')).toBe('Fixture');
+    expect(limiter.get('Fixture')).toMatchObject({ entity: 'Fixture', remaining: 42 });
+    expect(limiter.all()).toHaveLength(1);
+  });
+
+  test('should ignore responses without a rate_limit block', () => {
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', undefined);
+
+    expect(limiter.entityFor('/football/fixtures')).toBeUndefined();
+  });
+
+  test('should forget state once the window resets', () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', rateLimit(5, 10));
+
+    jest.advanceTimersByTime(10000);
+
+    expect(limiter.get('Fixture')).toBeUndefined();
+  });
+
+  test('should consume tokens without waiting while quota remains', async () => {
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', rateLimit(2));
+
+    await limiter.acquire('/football/fixtures');
+    await limiter.acquire('/football/fixtures');
+
+    expect(limiter.get('Fixture')!.remaining).toBe(0);
+  });
+
+  test('should delay requests until the window resets when exhausted', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', rateLimit(0, 30));
+
+    let acquired = false;
+    const pending = limiter.acquire('/football/fixtures').then(() => {
+      acquired = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  test('should keep the configured reserve', async () => {
+    const limiter = new RateLimiter({ reserve: 1, maxWait: 0 });
+    limiter.update('/football/fixtures', rateLimit(1));
+
+    await expect(limiter.acquire('/football/fixtures')).rejects.toThrow(SportMonksError);
+  });
+
+  test('should fail instead of waiting longer than maxWait', async () => {
+    const limiter = new RateLimiter({ maxWait: 1000 });
+    limiter.update('/football/fixtures', rateLimit(0, 60));
+
+    await expect(limiter.acquire('/football/fixtures')).rejects.toMatchObject({
+      statusCode: 429,
+      message: 'Rate limit for Fixture exhausted. Resets in 60 seconds.'
+    });
+  });
+
+  test('should fail instead of waiting more than a minute by default', async () => {
+    const limiter = new RateLimiter();
+    limiter.update('/football/fixtures', rateLimit(0, 61));
+
+    await expect(limiter.acquire('/football/fixtures')).rejects.toThrow(
+      'Rate limit for Fixture exhausted. Resets in 61 seconds.'
+    );
+  });
+
+  test('should only track the quota when throttling is disabled', async () => {
+    const limiter = new RateLimiter(false);
+    limiter.update('/football/fixtures', rateLimit(0, 60));
+
+    await expect(limiter.acquire('/football/fixtures')).resolves.toBeUndefined();
+    expect(limiter.get('Fixture')!.remaining).toBe(0);
+  });
+});
+
+describe('SportMonksClient rate limiting', () => {
+  test('should expose per-entity state learned from responses', async () => {
+    const transport: Transport = {
+      get: async () => ({ status: 200, data: { data: [], rate_limit: rateLimit(1234) } as any })
+    };
+    const client = new SportMonksClient('test-key', { transport });
+
+    await client.fixtures.byDate('2024-01-15').get();
+
+    expect(client.rateLimits.get('Fixture')?.remaining).toBe(1234);
+  });
+
+  test('should stop sending requests once the quota is exhausted', async () => {
+    const get = jest.fn(async () => ({
+      status: 200,
+      data: { data: [], rate_limit: rateLimit(0, 3600) } as any
+    }));
+    const client = new SportMonksClient('test-key', {
+      transport: { get },
+      rateLimit: { maxWait: 0 }
+    });
+
+    await client.fixtures.all().get();
+    await expect(client.fixtures.all().get()).rejects.toThrow(
+      'Rate limit for Fixture exhausted. Resets in 3600 seconds.'
+    );
+
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { SportMonksClient, ValidationError } from '../../../src';
+
+describe('Query serialization', () => {
+  let client: SportMonksClient;
+  let get: jest.Mock;
+
+  beforeEach(() => {
+    get = jest.fn(async () => ({ status: 200, data: { data: [] } }));
+    client = new SportMonksClient('test-key', { transport: { get } });
+  });
+
+  const query = () =>
+    client.fixtures
+      .byDate('2024-01-13')
+      .include(['participants', 'scores'])
+      .select(['name', 'starting_at'])
+      .filter('fixtureStates', [1, 5])
+      .filter('fixtureLeagues', 8)
+      .orderBy('-starting_at')
+      .has(['odds'])
+      .page(2)
+      .perPage(25);
+
+  describe('toJSON()', () => {
+    test('should describe the path and the parameters get() sends', async () => {
+      const descriptor = query().toJSON();
+      await query().get();
+
+      expect(descriptor).toEqual({
+        path: '/football/fixtures/date/2024-01-13',
+        params: {
+          include: 'participants;scores',
+          select: 'name,starting_at',
+          filters: 'fixtureStates:1,5;fixtureLeagues:8',
+          order: '-starting_at',
+          has: 'odds',
+          page: 2,
+          per_page: 25
+        }
+      });
+      expect(get.mock.calls[0][0]).toEqual(descriptor);
+    });
+
+    test('should be used by JSON.stringify', () => {
+      expect(JSON.stringify(client.leagues.byId(8).include(['country']))).toBe(
+        '{"path":"/football/leagues/8","params":{"include":"country"}}'
+      );
+    });
+
+    test('should use the client include separator', () => {
+      const custom = new SportMonksClient('test-key', {
+        transport: { get },
+        includeSeparator: ','
+      });
+
+      expect(custom.teams.byId(1).include(['country', 'venue']).toJSON().params).toEqual({
+        include: 'country,venue'
+      });
+    });
+  });
+
+  describe('toURL()', () => {
+    test('should build the request URL with the API token redacted', () => {
+      expect(client.fixtures.byId(18535517).include(['scores']).limit(10).toURL()).toBe(
+        'https://api.sportmonks.com/v3/football/fixtures/18535517?api_token=%5BREDACTED%5D&include=scores&per_page=10'
+      );
+    });
+
+    test('should use the configured base URL', () => {
+      const custom = new SportMonksClient('test-key', {
+        transport: { get },
+        baseUrl: 'https://proxy.example.com/sportmonks/'
+      });
+
+      expect(custom.core.timezones.all().toURL()).toBe(
+        'https://proxy.example.com/sportmonks/core/timezones?api_token=%5BREDACTED%5D'
+      );
+    });
+  });
+
+  describe('fromJSON()', () => {
+    test('should replay the exact query', async () => {
+      const descriptor = JSON.parse(JSON.stringify(query()));
+
+      await client.fromJSON(descriptor).get();
+
+      expect(get.mock.calls[0][0]).toEqual(query().toJSON());
+    });
+
+    test('should rebuild a builder that can be extended', async () => {
+      const rebuilt = client.fromJSON({
+        path: '/football/fixtures/date/2024-01-13',
+        params: { include: 'participants', filters: 'fixtureStates:5', per_page: 25 }
+      });
+
+      await rebuilt.include(['scores']).filter('fixtureLeagues', 8).getAll();
+
+      expect(get.mock.calls[0][0]).toEqual({
+        path: '/football/fixtures/date/2024-01-13',
+        params: {
+          include: 'participants;scores',
+          filters: 'fixtureStates:5;fixtureLeagues:8',
+          per_page: 25,
+          page: 1
+        }
+      });
+    });
+
+    test('should use the resource serving the path', () => {
+      expect(client.fromJSON({ path: '/odds/bookmakers', params: {} }).toURL()).toBe(
+        'https://api.sportmonks.com/v3/odds/bookmakers?api_token=%5BREDACTED%5D'
+      );
+    });
+
+    test('should reject unknown paths and invalid descriptors', () => {
+      expect(() => client.fromJSON({ path: '/football/unknown/1', params: {} })).toThrow(
+        'No resource serves /football/unknown/1'
+      );
+      expect(() => client.fromJSON({ path: 'fixtures', params: {} })).toThrow(ValidationError);
+      expect(() =>
+        client.fromJSON({ path: '/football/fixtures', params: { filters: 'fixtureStates' } })
+      ).toThrow('Invalid filter "fixtureStates", expected name:value');
+    });
+  });
+
+  describe('fromURL()', () => {
+    test('should rebuild a query from its URL', async () => {
+      await client.fromURL(query().toURL()).get();
+
+      expect(get.mock.calls[0][0]).toEqual(query().toJSON());
+    });
+
+    test('should accept paths relative to the base URL', () => {
+      const rebuilt = client.fromURL('/football/teams/search/Celtic%20FC?include=country');
+
+      expect(rebuilt.toJSON()).toEqual({
+        path: '/football/teams/search/Celtic%20FC',
+        params: { include: 'country' }
+      });
+    });
+
+    test('should ignore the API token of the URL', () => {
+      const rebuilt = client.fromURL(
+        'https://api.sportmonks.com/v3/core/countries?api_token=secret&page=3'
+      );
+
+      expect(rebuilt.toJSON()).toEqual({ path: '/core/countries', params: { page: 3 } });
+    });
+
+    test('should reject URLs outside the base URL', () => {
+      expect(() => client.fromURL('https://example.com/v3/football/fixtures')).toThrow(
+        ValidationError
+      );
+      expect(() => client.fromURL('https://api.sportmonks.com/v2/football/fixtures')).toThrow(
+        'https://api.sportmonks.com/v2/football/fixtures is not a URL of https://api.sportmonks.com/v3'
+      );
+      expect(() => client.fromURL('not a url')).toThrow('Invalid URL: not a url');
+    });
+  });
+});
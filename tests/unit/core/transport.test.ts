@@ -0,0 +1,296 @@
+import { SportMonksClient, SportMonksError } from '../../../src';
+import { TransportError } from '../../../src/core/errors';
+import { AxiosTransport } from '../../../src/core/axios-transport';
+import {
+  FetchTransport,
+  Transport,
+  TransportRequest,
+  TransportResponse
+} from '../../../src/core/transport';
+
+function createFetchResponse(status: number, body: any): Response {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Map([['content-type', 'application/json']]),
+    text: async () => text
+  } as unknown as Response;
+}
+
+describe('FetchTransport', () => {
+  let fetchMock: jest.Mock;
+  let transport: FetchTransport;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    transport = new FetchTransport({
+      baseUrl: 'https://api.sportmonks.com/v3/',
+      apiKey: 'test-key',
+      fetch: fetchMock
+    });
+  });
+
+  test('should build the URL with the API token and params', async () => {
+    fetchMock.mockResolvedValueOnce(createFetchResponse(200, { data: [] }));
+
+    const response = await transport.get({
+      path: '/football/leagues',
+      params: { include: 'country;seasons', page: 2, select: undefined }
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://api.sportmonks.com/v3/football/leagues?api_token=test-key&include=country%3Bseasons&page=2'
+    );
+    expect(init.method).toBe('GET');
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ data: [] });
+    expect(response.headers).toEqual({ 'content-type': 'application/json' });
+  });
+
+  test('should use the updated API key', async () => {
+    fetchMock.mockResolvedValueOnce(createFetchResponse(200, { data: [] }));
+
+    transport.setApiKey('new-key');
+    await transport.get({ path: '/football/teams', params: {} });
+
+    expect(fetchMock.mock.calls[0][0]).toContain('api_token=new-key');
+  });
+
+  test('should reject with TransportError for non-2xx responses', async () => {
+    fetchMock.mockResolvedValueOnce(createFetchResponse(404, { message: 'Not found' }));
+
+    await expect(transport.get({ path: '/football/teams/1', params: {} })).rejects.toMatchObject({
+      name: 'TransportError',
+      status: 404,
+      data: { message: 'Not found' }
+    });
+  });
+
+  test('should reject with TransportError for network failures', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const error = await transport.get({ path: '/football/teams', params: {} }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toBe('fetch failed');
+  });
+
+  test('should abort requests that exceed the timeout', async () => {
+    transport = new FetchTransport({
+      baseUrl: 'https://api.sportmonks.com/v3',
+      apiKey: 'test-key',
+      timeout: 10,
+      fetch: jest.fn((_url: string, init: RequestInit) => {
+        return new Promise<Response>((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }) as unknown as typeof fetch
+    });
+
+    await expect(transport.get({ path: '/football/teams', params: {} })).rejects.toMatchObject({
+      code: 'ETIMEDOUT',
+      message: 'timeout of 10ms exceeded'
+    });
+  });
+
+  test('should apply the timeout while reading the body', async () => {
+    transport = new FetchTransport({
+      baseUrl: 'https://api.sportmonks.com/v3',
+      apiKey: 'test-key',
+      timeout: 10,
+      fetch: jest.fn(async () => ({
+        ...createFetchResponse(200, {}),
+        text: () => new Promise(resolve => setTimeout(() => resolve('{}'), 1000))
+      })) as unknown as typeof fetch
+    });
+    const started = Date.now();
+
+    await expect(transport.get({ path: '/football/teams', params: {} })).rejects.toMatchObject({
+      name: 'TransportError',
+      code: 'ETIMEDOUT'
+    });
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  test('should reject with TransportError when reading the body fails', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ...createFetchResponse(200, {}),
+      text: async () => {
+        throw new TypeError('terminated');
+      }
+    });
+
+    const error = await transport.get({ path: '/football/teams', params: {} }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.message).toBe('terminated');
+  });
+
+  test('should cancel requests when the caller signal is aborted', async () => {
+    transport = new FetchTransport({
+      baseUrl: 'https://api.sportmonks.com/v3',
+      apiKey: 'test-key',
+      fetch: jest.fn((_url: string, init: RequestInit) => {
+        return new Promise<Response>((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }) as unknown as typeof fetch
+    });
+    const controller = new AbortController();
+
+    const pending = transport.get({
+      path: '/football/teams',
+      params: {},
+      signal: controller.signal
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+  });
+});
+
+describe('SportMonksClient with a custom transport', () => {
+  class InMemoryTransport implements Transport {
+    requests: TransportRequest[] = [];
+
+    constructor(private responses: Record<string, TransportResponse | TransportError>) {}
+
+    async get<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      this.requests.push(request);
+      const response = this.responses[request.path];
+      if (!response) {
+        throw new TransportError('Not found', 404, { message: `No fixture for ${request.path}` });
+      }
+      if (response instanceof TransportError) {
+        throw response;
+      }
+      return response as TransportResponse<T>;
+    }
+  }
+
+  test('should route resource requests through the injected transport', async () => {
+    const transport = new InMemoryTransport({
+      '/football/leagues/8': { status: 200, data: { data: { id: 8, name: 'Premier League' } } }
+    });
+    const client = new SportMonksClient('test-key', { transport });
+
+    const response = await client.leagues.byId(8).include(['country']).get();
+
+    expect(response.data.name).toBe('Premier League');
+    expect(transport.requests).toEqual([
+      { path: '/football/leagues/8', params: { include: 'country' } }
+    ]);
+  });
+
+  test('should map transport errors to SportMonksError', async () => {
+    const transport = new InMemoryTransport({});
+    const client = new SportMonksClient('test-key', { transport });
+
+    const error = await client.teams
+      .byId(1)
+      .get()
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SportMonksError);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toBe('No fixture for /football/teams/1');
+  });
+
+  test('should work in runtimes without a process global', async () => {
+    const transport = new InMemoryTransport({
+      '/football/venues/5': { status: 200, data: { data: { id: 5 } } }
+    });
+    const { process } = global;
+    let client: SportMonksClient;
+    try {
+      (global as any).process = undefined;
+      client = new SportMonksClient('test-key', { transport });
+    } finally {
+      global.process = process;
+    }
+
+    expect((await client.venues.byId(5).get()).data).toEqual({ id: 5 });
+  });
+
+  test('should retry when the response body fails to arrive', async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce({
+        ...createFetchResponse(200, {}),
+        text: async () => {
+          throw new TypeError('terminated');
+        }
+      })
+      .mockResolvedValueOnce(createFetchResponse(200, { data: [] }));
+    const client = new SportMonksClient('test-key', {
+      transport: new FetchTransport({ baseUrl: 'https://api.test', apiKey: 'k', fetch: fetchMock }),
+      retry: { maxRetries: 2, retryDelay: 1 }
+    });
+
+    const response = await client.venues.all().get();
+
+    expect(response.data).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test('should retry transport failures with retryable status codes', async () => {
+    let calls = 0;
+    const transport: Transport = {
+      get: async <T>() => {
+        calls++;
+        if (calls === 1) {
+          throw new TransportError('Bad Gateway', 502);
+        }
+        return { status: 200, data: { data: [] } as T };
+      }
+    };
+    const client = new SportMonksClient('test-key', {
+      transport,
+      retry: { maxRetries: 1, retryDelay: 1 }
+    });
+
+    await client.venues.all().get();
+
+    expect(calls).toBe(2);
+  });
+});
+
+describe('Default transport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not load axios until the default transport is created', () => {
+    const loaded = jest.fn(() => ({}));
+
+    jest.isolateModules(() => {
+      jest.doMock('axios', loaded);
+      const sdk = require('../../../src');
+      new sdk.SportMonksClient('test-key', { transport: { get: jest.fn() } });
+    });
+
+    expect(loaded).not.toHaveBeenCalled();
+  });
+
+  test('should use the Fetch API when axios is not installed', async () => {
+    jest.spyOn(AxiosTransport, 'isAvailable').mockReturnValue(false);
+    // Assigned rather than spied on, as Node 16 has no global fetch
+    const { fetch } = global;
+    const fetchMock = jest.fn().mockResolvedValueOnce(createFetchResponse(200, { data: [] }));
+    try {
+      global.fetch = fetchMock;
+      const client = new SportMonksClient('test-key');
+
+      await client.venues.all().get();
+    } finally {
+      global.fetch = fetch;
+    }
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.sportmonks.com/v3/football/venues?api_token=test-key'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { ExpectedType, SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('ExpectedResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch expected values by team', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          fixture_id: 18535517,
+          type_id: ExpectedType.EXPECTED_GOALS,
+          participant_id: 19,
+          data: { value: 1.87 },
+          location: 'home'
+        }
+      ])
+    });
+
+    const response = await client.expected.byTeam().include(['type']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/expected/fixtures', {
+      params: { include: 'type' }
+    });
+    expect(response.data[0].data.value).toBe(1.87);
+  });
+
+  test('should fetch expected values by player', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.expected.byPlayer().page(2).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/expected/lineups', {
+      params: { page: 2 }
+    });
+  });
+
+  test('should type xG included with a fixture and its lineups', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: {
+        data: {
+          id: 18535517,
+          xGFixture: [{ id: 1, participant_id: 19, data: { value: 1.87 }, location: 'home' }],
+          lineups: [{ id: 5, player_id: 580, xGLineup: [{ id: 9, data: { value: 0.42 } }] }]
+        }
+      }
+    });
+
+    const response = await client.fixtures
+      .byId(18535517)
+      .include(['xGFixture', 'lineups.xGLineup'])
+      .get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/18535517', {
+      params: { include: 'xGFixture;lineups.xGLineup' }
+    });
+    expect(response.data.xGFixture?.[0].data.value).toBe(1.87);
+    expect(response.data.lineups?.[0].xGLineup?.[0].data.value).toBe(0.42);
+  });
+});
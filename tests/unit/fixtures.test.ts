@@ -106,11 +106,11 @@ describe('FixturesResource', () => {
         data: createMockResponse([])
       });
 
-      await client.fixtures.all().include(['localteam', 'visitorteam', 'venue', 'referee']).get();
+      await client.fixtures.all().include(['participants', 'venue', 'referees']).get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures', {
         params: {
-          include: 'localteam;visitorteam;venue;referee'
+          include: 'participants;venue;referees'
         }
       });
     });
@@ -122,17 +122,12 @@ describe('FixturesResource', () => {
 
       await client.fixtures
         .byId(18535517)
-        .include([
-          'localteam.country',
-          'visitorteam.country',
-          'localteam.venue',
-          'visitorteam.venue'
-        ])
+        .include(['participants.country', 'participants.venue'])
         .get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/18535517', {
         params: {
-          include: 'localteam.country;visitorteam.country;localteam.venue;visitorteam.venue'
+          include: 'participants.country;participants.venue'
         }
       });
     });
@@ -178,12 +173,12 @@ describe('FixturesResource', () => {
 
       await client.fixtures
         .byId(18535517)
-        .include(['lineups.player', 'lineups.stats', 'bench.player', 'bench.stats'])
+        .include(['lineups.player', 'lineups.details', 'formations'])
         .get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/18535517', {
         params: {
-          include: 'lineups.player;lineups.stats;bench.player;bench.stats'
+          include: 'lineups.player;lineups.details;formations'
         }
       });
     });
@@ -210,11 +205,11 @@ describe('FixturesResource', () => {
         data: { data: {} }
       });
 
-      await client.fixtures.byId(18535517).include(['odds', 'predictions', 'valuebet']).get();
+      await client.fixtures.byId(18535517).include(['odds', 'premiumOdds', 'predictions']).get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/18535517', {
         params: {
-          include: 'odds;predictions;valuebet'
+          include: 'odds;premiumOdds;predictions'
         }
       });
     });
@@ -226,7 +221,7 @@ describe('FixturesResource', () => {
 
       await client.fixtures
         .byDateRange('2024-01-01', '2024-01-31')
-        .include(['localteam', 'visitorteam', 'league', 'venue'])
+        .include(['participants', 'league', 'venue'])
         .filter('status_id', '5') // Finished matches
         .filter('league_id', '8')
         .page(1)
@@ -237,7 +232,7 @@ describe('FixturesResource', () => {
         '/football/fixtures/between/2024-01-01/2024-01-31',
         {
           params: {
-            include: 'localteam;visitorteam;league;venue',
+            include: 'participants;league;venue',
             filters: 'status_id:5;league_id:8',
             page: 1,
             per_page: 50
@@ -251,14 +246,11 @@ describe('FixturesResource', () => {
         data: createMockResponse([])
       });
 
-      await client.fixtures
-        .headToHead(1, 14)
-        .include(['localteam', 'visitorteam', 'scores', 'events'])
-        .get();
+      await client.fixtures.headToHead(1, 14).include(['participants', 'scores', 'events']).get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/head-to-head/1/14', {
         params: {
-          include: 'localteam;visitorteam;scores;events'
+          include: 'participants;scores;events'
         }
       });
     });
@@ -309,6 +301,7 @@ describe('FixturesResource', () => {
       (mockedAxios.isAxiosError as unknown as jest.Mock).mockReturnValueOnce(true);
 
       await expect(
+        // @ts-expect-error unknown includes don't compile
         client.fixtures.byId(18535517).include(['invalid_include']).get()
       ).rejects.toThrow("The requested include 'invalid_include' does not exist");
     });
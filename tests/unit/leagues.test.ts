@@ -3,7 +3,7 @@
  */
 
 import axios from 'axios';
-import { SportMonksClient, SportMonksError, LeagueType } from '../../src';
+import { SportMonksClient, SportMonksError, LeagueType, AxiosTransport } from '../../src';
 
 // Mock axios
 jest.mock('axios');
@@ -383,13 +383,15 @@ describe('SportMonksClient', () => {
     const client = new SportMonksClient('old-key');
     client.setApiKey('new-key');
 
-    expect(client['client'].defaults.params!.api_token).toBe('new-key');
+    expect((client['transport'] as AxiosTransport).axios.defaults.params!.api_token).toBe(
+      'new-key'
+    );
   });
 
   test('should update timeout', () => {
     const client = new SportMonksClient('test-key');
     client.setTimeout(60000);
 
-    expect(client['client'].defaults.timeout).toBe(60000);
+    expect((client['transport'] as AxiosTransport).axios.defaults.timeout).toBe(60000);
   });
 });
@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('MarketsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all markets from the odds API', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          legacy_id: 1,
+          name: 'Fulltime Result',
+          developer_name: 'FULLTIME_RESULT',
+          has_winning_calculations: true
+        }
+      ])
+    });
+
+    const response = await client.markets.all().get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/markets', { params: {} });
+    expect(response.data[0].developer_name).toBe('FULLTIME_RESULT');
+  });
+
+  test('should fetch market by ID', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: { id: 1 } } });
+
+    await client.markets.byId(1).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/markets/1', { params: {} });
+  });
+
+  test('should search markets', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.markets.search('Over/Under').get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/odds/markets/search/Over%2FUnder', {
+      params: {}
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('NewsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all pre-match news', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          fixture_id: 18535517,
+          league_id: 8,
+          title: 'Preview: Arsenal vs Chelsea',
+          type: 'prematch',
+          lines: [{ id: 10, article_id: 1, text: 'Arsenal host Chelsea.', type: 'paragraph' }]
+        }
+      ])
+    });
+
+    const response = await client.news.preMatch().include(['lines']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/news/pre-match', {
+      params: { include: 'lines' }
+    });
+    expect(response.data[0].type).toBe('prematch');
+    expect(response.data[0].lines?.[0].text).toBe('Arsenal host Chelsea.');
+  });
+
+  test('should fetch pre-match news by season', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.news.preMatchBySeason(19735).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/news/pre-match/seasons/19735', {
+      params: {}
+    });
+  });
+
+  test('should fetch pre-match news for upcoming fixtures', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.news.upcoming().include(['fixture']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/news/pre-match/upcoming', {
+      params: { include: 'fixture' }
+    });
+  });
+
+  test('should fetch all post-match news', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.news.postMatch().page(2).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/news/post-match', {
+      params: { page: 2 }
+    });
+  });
+
+  test('should fetch post-match news by season', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.news.postMatchBySeason(19735).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/news/post-match/seasons/19735', {
+      params: {}
+    });
+  });
+
+  test('should type news included with a fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: {
+        data: {
+          id: 18535517,
+          name: 'Arsenal vs Chelsea',
+          postmatchNews: [
+            { id: 2, fixture_id: 18535517, league_id: 8, title: 'Report', type: 'postmatch' }
+          ]
+        }
+      }
+    });
+
+    const response = await client.fixtures.byId(18535517).include(['postmatchNews.lines']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/fixtures/18535517', {
+      params: { include: 'postmatchNews.lines' }
+    });
+    expect(response.data.postmatchNews?.[0].title).toBe('Report');
+  });
+});
@@ -0,0 +1,144 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const createMockOdd = (overrides: any = {}) => ({
+  id: 1,
+  fixture_id: 18535517,
+  market_id: 1,
+  bookmaker_id: 2,
+  label: 'Home',
+  value: '2.10',
+  name: 'Home',
+  sort_order: 0,
+  market_description: 'Match Winner',
+  probability: '47.62%',
+  dp3: '2.100',
+  fractional: '11/10',
+  american: '110',
+  winning: null,
+  stopped: false,
+  total: null,
+  handicap: null,
+  participants: null,
+  created_at: '2023-01-10T10:00:00.000000Z',
+  original_label: '1',
+  latest_bookmaker_update: '2023-01-14 12:00:00',
+  ...overrides
+});
+
+describe('OddsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  describe('Pre-match odds', () => {
+    test('should fetch all pre-match odds', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([createMockOdd()]) });
+
+      const response = await client.odds.all().include(['market', 'bookmaker']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/odds/pre-match', {
+        params: { include: 'market;bookmaker' }
+      });
+      expect(response.data[0].value).toBe('2.10');
+    });
+
+    test('should fetch pre-match odds by fixture', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.byFixture(18535517).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/odds/pre-match/fixtures/18535517',
+        { params: {} }
+      );
+    });
+
+    test('should fetch pre-match odds by fixture and bookmaker', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.byFixtureAndBookmaker(18535517, 2).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/odds/pre-match/fixtures/18535517/bookmakers/2',
+        { params: {} }
+      );
+    });
+
+    test('should fetch pre-match odds by fixture and market', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.byFixtureAndMarket(18535517, 1).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/odds/pre-match/fixtures/18535517/markets/1',
+        { params: {} }
+      );
+    });
+
+    test('should fetch the latest pre-match odds', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.latest().get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/odds/pre-match/latest', {
+        params: {}
+      });
+    });
+  });
+
+  describe('In-play odds', () => {
+    test('should fetch in-play odds by fixture', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([createMockOdd({ suspended: true })])
+      });
+
+      const response = await client.odds.inplayByFixture(18535517).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/odds/inplay/fixtures/18535517',
+        { params: {} }
+      );
+      expect(response.data[0].suspended).toBe(true);
+    });
+
+    test('should fetch in-play odds by fixture and market', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.inplayByFixtureAndMarket(18535517, 1).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/odds/inplay/fixtures/18535517/markets/1',
+        { params: {} }
+      );
+    });
+
+    test('should fetch the latest in-play odds', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.odds.inplayLatest().get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/odds/inplay/latest', {
+        params: {}
+      });
+    });
+  });
+});
@@ -233,6 +233,7 @@ describe('PlayersResource', () => {
       mockAxiosInstance.get.mockRejectedValueOnce(errorResponse);
       (mockedAxios.isAxiosError as unknown as jest.Mock).mockReturnValueOnce(true);
 
+      // @ts-expect-error unknown includes don't compile
       await expect(client.players.byId(1).include(['invalid_include']).get()).rejects.toThrow(
         "The requested include 'invalid_include' does not exist"
       );
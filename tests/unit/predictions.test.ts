@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('PredictionsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch the probabilities of a fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          fixture_id: 18535517,
+          type_id: 237,
+          predictions: { home: 45.6, draw: 24.3, away: 30.1 }
+        }
+      ])
+    });
+
+    const response = await client.predictions
+      .probabilitiesByFixture(18535517)
+      .include(['type'])
+      .get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+      '/football/predictions/probabilities/fixtures/18535517',
+      { params: { include: 'type' } }
+    );
+    expect(response.data[0].predictions.home).toBe(45.6);
+  });
+
+  test('should fetch all probabilities', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.predictions.probabilities().get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/predictions/probabilities', {
+      params: {}
+    });
+  });
+
+  test('should fetch the value bets of a fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          fixture_id: 18535517,
+          type_id: 33,
+          predictions: {
+            bet: '1',
+            bookmaker: 'bet365',
+            fair_odd: 1.85,
+            odd: 2.1,
+            stake: 2.5,
+            is_value: true
+          }
+        }
+      ])
+    });
+
+    const response = await client.predictions.valueBetsByFixture(18535517).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+      '/football/predictions/value-bets/fixtures/18535517',
+      { params: {} }
+    );
+    expect(response.data[0].predictions.is_value).toBe(true);
+  });
+
+  test('should fetch all value bets', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.predictions.valueBets().get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/predictions/value-bets', {
+      params: {}
+    });
+  });
+
+  test('should fetch predictability by league', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.predictions.predictabilityByLeague(8).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+      '/football/predictions/predictability/leagues/8',
+      { params: {} }
+    );
+  });
+});
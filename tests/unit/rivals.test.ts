@@ -0,0 +1,49 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('RivalsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all rivalries', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.rivals.all().page(2).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/rivals', { params: { page: 2 } });
+  });
+
+  test('should fetch the rivals of a team', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        { id: 1, sport_id: 1, team_id: 1, rival_id: 14, rival: { id: 14, name: 'Manchester City' } }
+      ])
+    });
+
+    const response = await client.rivals.byTeam(1).include(['rival']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/rivals/teams/1', {
+      params: { include: 'rival' }
+    });
+    expect(response.data[0].rival?.name).toBe('Manchester City');
+  });
+});
@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse, createMockRound, createMockSeason } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('RoundsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  describe('Endpoint Methods', () => {
+    test('should fetch round by ID', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: createMockRound() } });
+
+      const response = await client.rounds.byId(274719).include(['fixtures']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/rounds/274719', {
+        params: { include: 'fixtures' }
+      });
+      expect(response.data.name).toBe('20');
+    });
+
+    test('should fetch rounds by season', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.rounds.bySeason(19735).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/rounds/seasons/19735', {
+        params: {}
+      });
+    });
+
+    test('should search rounds', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.rounds.search('20').get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/rounds/search/20', {
+        params: {}
+      });
+    });
+  });
+
+  describe('current round helpers', () => {
+    test('should find the current round of a season', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([
+          createMockRound({ id: 1, is_current: false }),
+          createMockRound({ id: 2, is_current: true })
+        ])
+      });
+
+      const round = await client.rounds.currentBySeason(19735);
+
+      expect(round?.id).toBe(2);
+    });
+
+    test('should find the current round of a league via its current season', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: createMockResponse([createMockSeason({ id: 21646 })]) })
+        .mockResolvedValueOnce({ data: createMockResponse([createMockRound({ id: 3 })]) });
+
+      const round = await client.rounds.currentByLeague(8);
+
+      expect(mockAxiosInstance.get.mock.calls[0][0]).toBe('/football/seasons');
+      expect(mockAxiosInstance.get.mock.calls[1][0]).toBe('/football/rounds/seasons/21646');
+      expect(round?.id).toBe(3);
+    });
+
+    test('should return undefined when the league has no current season', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      expect(await client.rounds.currentByLeague(8)).toBeUndefined();
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+});
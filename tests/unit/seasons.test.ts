@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse, createMockSeason } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('SeasonsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  describe('Endpoint Methods', () => {
+    test('should fetch all seasons', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([createMockSeason()])
+      });
+
+      const response = await client.seasons.all().include(['league']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/seasons', {
+        params: { include: 'league' }
+      });
+      expect(response.data[0].name).toBe('2022/2023');
+    });
+
+    test('should fetch season by ID', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: createMockSeason() } });
+
+      const response = await client.seasons.byId(19735).include(['stages', 'rounds']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/seasons/19735', {
+        params: { include: 'stages;rounds' }
+      });
+      expect(response.data.is_current).toBe(true);
+    });
+
+    test('should fetch seasons by team', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.seasons.byTeam(1).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/seasons/teams/1', {
+        params: {}
+      });
+    });
+
+    test('should search seasons', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.seasons.search('2022/2023').get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/seasons/search/2022%2F2023', {
+        params: {}
+      });
+    });
+  });
+
+  describe('currentByLeague', () => {
+    test('should return the current season across pages', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: createMockResponse([createMockSeason({ id: 1, is_current: false })], {
+            pagination: { has_more: true }
+          })
+        })
+        .mockResolvedValueOnce({
+          data: createMockResponse([createMockSeason({ id: 2, is_current: true })])
+        });
+
+      const season = await client.seasons.currentByLeague(8);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/seasons', {
+        params: { filters: 'seasonLeagues:8', per_page: 50, page: 1 }
+      });
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(season?.id).toBe(2);
+    });
+
+    test('should return undefined when no season is current', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([createMockSeason({ is_current: false })])
+      });
+
+      expect(await client.seasons.currentByLeague(8)).toBeUndefined();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { SportMonksSyntaxBuilder } from '../../src/types/sportmonks-syntax';
 import { QueryBuilder } from '../../src/core/query-builder';
 import { BaseResource } from '../../src/core/base-resource';
+import { AxiosTransport } from '../../src/core/axios-transport';
 
 describe('SportMonks Syntax Support', () => {
   let mockResource: BaseResource;
@@ -12,7 +13,7 @@ describe('SportMonks Syntax Support', () => {
     };
     mockResource = new (class extends BaseResource {
       constructor() {
-        super(mockAxios, '/test');
+        super(new AxiosTransport(mockAxios), '/test');
       }
     })();
   });
@@ -141,7 +142,7 @@ describe('SportMonks Syntax Support', () => {
 
       class TestResource extends BaseResource {
         constructor() {
-          super(client as any, '/football/fixtures', ';');
+          super(new AxiosTransport(client as any), '/football/fixtures', ';');
         }
       }
       const resource = new TestResource();
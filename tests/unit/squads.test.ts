@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const createMockSquadPlayer = (overrides: any = {}) => ({
+  id: 1,
+  transfer_id: null,
+  player_id: 100,
+  team_id: 1,
+  position_id: 25,
+  detailed_position_id: null,
+  start: '2020-07-01',
+  end: null,
+  captain: false,
+  jersey_number: 10,
+  ...overrides
+});
+
+describe('SquadsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  describe('Endpoint Methods', () => {
+    test('should fetch the squad of a team', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([createMockSquadPlayer()], { pagination: false })
+      });
+
+      const response = await client.squads.byTeam(1).include(['player']).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/squads/teams/1', {
+        params: { include: 'player' }
+      });
+      expect(response.data[0].jersey_number).toBe(10);
+    });
+
+    test('should fetch the extended squad of a team', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.squads.extendedByTeam(1).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/squads/teams/1/extended', {
+        params: {}
+      });
+    });
+
+    test('should fetch the squad of a team for a season', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.squads.bySeasonAndTeam(19735, 1).get();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/squads/seasons/19735/teams/1', {
+        params: {}
+      });
+    });
+  });
+
+  describe('onDate', () => {
+    test('should return the memberships active on the date', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([
+          createMockSquadPlayer({ player_id: 1, end: '2022-12-31' }),
+          createMockSquadPlayer({ player_id: 2, start: '2023-01-02' }),
+          createMockSquadPlayer({ player_id: 3 })
+        ])
+      });
+
+      const squad = await client.squads.onDate(1, '2022-06-01');
+
+      expect(squad.map(member => member.player_id)).toEqual([1, 3]);
+    });
+
+    test('should read past seasons from the season squad with includes', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+      await client.squads.onDate(1, '2023-01-14', { seasonId: 19735, include: ['player'] });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/squads/seasons/19735/teams/1', {
+        params: { include: 'player' }
+      });
+    });
+
+    test('should reject invalid dates before sending a request', async () => {
+      await expect(client.squads.onDate(1, '14/01/2023')).rejects.toThrow(
+        'Invalid date format: 14/01/2023. Expected YYYY-MM-DD'
+      );
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('StagesResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all stages', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.stages.all().get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/stages', { params: {} });
+  });
+
+  test('should fetch stage by ID', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: { data: { id: 77457866, name: 'Regular Season' } }
+    });
+
+    const response = await client.stages.byId(77457866).include(['rounds']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/stages/77457866', {
+      params: { include: 'rounds' }
+    });
+    expect(response.data.name).toBe('Regular Season');
+  });
+
+  test('should fetch stages by season', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.stages.bySeason(19735).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/stages/seasons/19735', {
+      params: {}
+    });
+  });
+
+  test('should search stages', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.stages.search('Regular Season').get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/stages/search/Regular%20Season', {
+      params: {}
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import axios from 'axios';
+import { PlayerStatisticType, SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('StatisticsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch season statistics of a participant', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          player_id: 580,
+          season_id: 19735,
+          has_values: true,
+          details: [{ id: 1, type_id: 208, value: { total: 12, goals: 10, penalties: 2 } }]
+        }
+      ])
+    });
+
+    const response = await client.statistics
+      .byParticipant('players', 580)
+      .include(['details.type'])
+      .get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/statistics/seasons/players/580', {
+      params: { include: 'details.type' }
+    });
+    expect(response.data[0].details![0].value.total).toBe(12);
+  });
+
+  test('should filter participant statistics by type', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.statistics
+      .byParticipant('teams', 1, [PlayerStatisticType.GOALS, PlayerStatisticType.ASSISTS])
+      .get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/statistics/seasons/teams/1', {
+      params: { filters: 'teamStatisticDetailTypes:208,209' }
+    });
+  });
+
+  test('should fetch the statistics of a participant for one season', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.statistics.bySeason('players', 580, 19735, [PlayerStatisticType.GOALS]).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/statistics/seasons/players/580', {
+      params: { filters: 'playerStatisticDetailTypes:208;playerStatisticSeasons:19735' }
+    });
+  });
+
+  test('should fetch stage statistics filtered by type', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.statistics.byStage(77457866, [PlayerStatisticType.YELLOWCARDS]).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/statistics/stages/77457866', {
+      params: { filters: 'stageStatisticTypes:212' }
+    });
+  });
+
+  test('should fetch round statistics', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.statistics.byRound(274719).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/statistics/rounds/274719', {
+      params: {}
+    });
+  });
+});
@@ -72,6 +72,7 @@ describe('SportMonks Syntax Helpers in SDK', () => {
 
       await client.fixtures
         .byDate('2024-01-15')
+        // @ts-expect-error fields missing from the entity types don't compile
         .withIncludes({
           localteam: ['name', 'logo'],
           visitorteam: ['name', 'logo'],
@@ -96,6 +97,7 @@ describe('SportMonks Syntax Helpers in SDK', () => {
 
       await client.players
         .byId(123)
+        // @ts-expect-error fields missing from the entity types don't compile
         .withIncludes({
           team: true,
           'team.country': ['name', 'iso2'],
@@ -225,6 +227,7 @@ describe('SportMonks Syntax Helpers in SDK', () => {
 
       await client.livescores
         .inplay()
+        // @ts-expect-error fields missing from the entity types don't compile
         .withIncludes({
           localteam: ['name', 'short_code', 'logo'],
           visitorteam: ['name', 'short_code', 'logo'],
@@ -249,6 +252,7 @@ describe('SportMonks Syntax Helpers in SDK', () => {
 
       await client.teams
         .byId(1)
+        // @ts-expect-error fields missing from the entity types don't compile
         .withIncludes({
           'squad.player': ['display_name', 'position_id', 'jersey_number'],
           'squad.player.position': ['name'],
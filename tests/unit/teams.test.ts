@@ -117,11 +117,11 @@ describe('TeamsResource', () => {
         data: createMockResponse([])
       });
 
-      await client.teams.all().include(['country', 'venue', 'squad']).get();
+      await client.teams.all().include(['country', 'venue', 'players']).get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/teams', {
         params: {
-          include: 'country;venue;squad'
+          include: 'country;venue;players'
         }
       });
     });
@@ -133,12 +133,12 @@ describe('TeamsResource', () => {
 
       await client.teams
         .byId(1)
-        .include(['country', 'venue', 'squad.player', 'latest', 'coach'])
+        .include(['country', 'venue', 'players.player', 'latest', 'coaches'])
         .get();
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/teams/1', {
         params: {
-          include: 'country;venue;squad.player;latest;coach'
+          include: 'country;venue;players.player;latest;coaches'
         }
       });
     });
@@ -175,6 +175,59 @@ describe('TeamsResource', () => {
     });
   });
 
+  describe('unavailableOn', () => {
+    test('should return the players sidelined on the fixture date', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          data: {
+            id: 1,
+            name: 'Manchester United',
+            sidelined: [
+              {
+                id: 1,
+                player_id: 10,
+                category: 'injury',
+                start_date: '2024-01-01',
+                end_date: null,
+                games_missed: 3,
+                completed: false
+              },
+              {
+                id: 2,
+                player_id: 11,
+                category: 'suspension',
+                start_date: '2023-12-01',
+                end_date: '2023-12-20',
+                games_missed: 2,
+                completed: true
+              }
+            ]
+          }
+        }
+      });
+
+      const unavailable = await client.teams.unavailableOn(1, '2024-01-13', { include: ['type'] });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/teams/1', {
+        params: { include: 'sidelined.player;sidelined.type' }
+      });
+      expect(unavailable.map(record => record.player_id)).toEqual([10]);
+    });
+
+    test('should handle teams without sidelined players', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: { id: 1 } } });
+
+      await expect(client.teams.unavailableOn(1, new Date(2024, 0, 13))).resolves.toEqual([]);
+    });
+
+    test('should reject invalid dates before sending a request', async () => {
+      await expect(client.teams.unavailableOn(1, '2024-13-45')).rejects.toThrow(
+        'Invalid date: 2024-13-45'
+      );
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     test('should handle API errors gracefully', async () => {
       const errorResponse = {
@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { PlayerStatisticType, SportMonksClient } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('TopscorersResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch the topscorers of a season', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        {
+          id: 1,
+          season_id: 19735,
+          stage_id: null,
+          player_id: 580,
+          participant_id: 1,
+          type_id: 208,
+          position: 1,
+          total: 21
+        }
+      ])
+    });
+
+    const response = await client.topscorers
+      .bySeason(19735, [PlayerStatisticType.GOALS])
+      .include(['player'])
+      .get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/topscorers/seasons/19735', {
+      params: { include: 'player', filters: 'seasonTopscorerTypes:208' }
+    });
+    expect(response.data[0].total).toBe(21);
+  });
+
+  test('should fetch the topscorers of a stage', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.topscorers.byStage(77457866, [PlayerStatisticType.ASSISTS]).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/topscorers/stages/77457866', {
+      params: { filters: 'stageTopscorerTypes:209' }
+    });
+  });
+
+  test('should not add a type filter when no types are given', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.topscorers.bySeason(19735).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/topscorers/seasons/19735', {
+      params: {}
+    });
+  });
+});
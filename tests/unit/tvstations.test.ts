@@ -0,0 +1,143 @@
+import axios from 'axios';
+import { SportMonksClient, ValidationError } from '../../src';
+import { createMockResponse } from '../helpers/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('TvStationsResource', () => {
+  let client: SportMonksClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn(),
+      defaults: { params: {}, timeout: 30000 },
+      interceptors: { response: { use: jest.fn() } }
+    };
+
+    mockedAxios.create = jest.fn().mockReturnValue(mockAxiosInstance);
+    (mockedAxios.isAxiosError as unknown as jest.Mock) = jest.fn().mockReturnValue(false);
+
+    client = new SportMonksClient('test-api-key');
+  });
+
+  test('should fetch all TV stations', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({
+      data: createMockResponse([
+        { id: 2, name: 'Sky Sports', url: null, image_path: null, type: 'tv', related_id: null }
+      ])
+    });
+
+    const response = await client.tvStations.all().include(['countries']).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/tv-stations', {
+      params: { include: 'countries' }
+    });
+    expect(response.data[0].name).toBe('Sky Sports');
+  });
+
+  test('should fetch TV station by ID', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: { data: { id: 2, name: 'Sky Sports' } } });
+
+    await client.tvStations.byId(2).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/tv-stations/2', { params: {} });
+  });
+
+  test('should fetch the TV stations of a fixture', async () => {
+    mockAxiosInstance.get.mockResolvedValueOnce({ data: createMockResponse([]) });
+
+    await client.tvStations.byFixture(18535517).get();
+
+    expect(mockAxiosInstance.get).toHaveBeenCalledWith('/football/tv-stations/fixtures/18535517', {
+      params: {}
+    });
+  });
+
+  describe('guide', () => {
+    const sky = { id: 2, name: 'Sky Sports' };
+    const bbc = { id: 3, name: 'BBC One' };
+    const broadcast = (fixtureId: number, station: any, countryId: number) => ({
+      id: fixtureId * 10 + station.id,
+      fixture_id: fixtureId,
+      tvstation_id: station.id,
+      country_id: countryId,
+      tvstation: station
+    });
+
+    test('should build a guide per channel from fixtures in the date window', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: createMockResponse(
+            [
+              {
+                id: 2,
+                starting_at_timestamp: 1705163400,
+                tvstations: [broadcast(2, sky, 462), broadcast(2, bbc, 462)]
+              }
+            ],
+            { pagination: { has_more: true } }
+          )
+        })
+        .mockResolvedValueOnce({
+          data: createMockResponse([
+            { id: 1, starting_at_timestamp: 1705154400, tvstations: [broadcast(1, sky, 462)] },
+            { id: 3, starting_at_timestamp: 1705240800, tvstations: [broadcast(3, sky, 17)] }
+          ])
+        });
+
+      const guide = await client.tvStations.guide({
+        startDate: '2024-01-13',
+        endDate: '2024-01-14',
+        countryId: 462,
+        include: ['participants']
+      });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/football/fixtures/between/2024-01-13/2024-01-14',
+        { params: { include: 'tvstations.tvstation;participants', page: 1 } }
+      );
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(guide.map(channel => channel.tvstation?.name)).toEqual(['Sky Sports', 'BBC One']);
+      expect(guide[0].fixtures.map(fixture => fixture.id)).toEqual([1, 2]);
+      expect(guide[1].fixtures.map(fixture => fixture.id)).toEqual([2]);
+    });
+
+    test('should filter the guide by TV station IDs', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: createMockResponse([
+          {
+            id: 1,
+            starting_at_timestamp: 1705154400,
+            tvstations: [broadcast(1, sky, 462), broadcast(1, bbc, 462)]
+          }
+        ])
+      });
+
+      const guide = await client.tvStations.guide({
+        startDate: '2024-01-13',
+        endDate: '2024-01-14',
+        tvStationIds: [3]
+      });
+
+      expect(guide).toHaveLength(1);
+      expect(guide[0].tvstation_id).toBe(3);
+    });
+
+    test('should require a country or TV stations', async () => {
+      await expect(
+        client.tvStations.guide({ startDate: '2024-01-13', endDate: '2024-01-14' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+
+    test('should validate the date window', async () => {
+      await expect(
+        client.tvStations.guide({ startDate: '2024-01-14', endDate: '2024-01-13', countryId: 462 })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
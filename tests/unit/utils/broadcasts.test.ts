@@ -0,0 +1,50 @@
+import { broadcastGuide } from '../../../src/utils/broadcasts';
+
+describe('broadcastGuide', () => {
+  const fixtures = [
+    {
+      id: 2,
+      starting_at_timestamp: 200,
+      tvstations: [
+        { id: 21, fixture_id: 2, tvstation_id: 5, country_id: 462 },
+        { id: 22, fixture_id: 2, tvstation_id: 5, country_id: 17 }
+      ]
+    },
+    {
+      id: 1,
+      starting_at_timestamp: 100,
+      tvstations: [
+        { id: 11, fixture_id: 1, tvstation_id: 7, country_id: 17 },
+        { id: 12, fixture_id: 1, tvstation_id: 5, country_id: 462 }
+      ]
+    },
+    { id: 3, starting_at_timestamp: 300 }
+  ];
+
+  test('should group fixtures by channel in kick-off order', () => {
+    const guide = broadcastGuide(fixtures);
+
+    expect(guide.map(channel => channel.tvstation_id)).toEqual([7, 5]);
+    expect(guide[1].fixtures.map(fixture => fixture.id)).toEqual([1, 2]);
+  });
+
+  test('should list a fixture once per channel', () => {
+    const guide = broadcastGuide(fixtures, { tvStationIds: [5] });
+
+    expect(guide).toHaveLength(1);
+    expect(guide[0].fixtures).toHaveLength(2);
+  });
+
+  test('should filter broadcasts by country', () => {
+    const guide = broadcastGuide(fixtures, { countryId: 17 });
+
+    expect(guide.map(channel => channel.tvstation_id)).toEqual([7, 5]);
+    expect(guide[1].fixtures.map(fixture => fixture.id)).toEqual([2]);
+  });
+
+  test('should apply both filters together', () => {
+    expect(broadcastGuide(fixtures, { countryId: 17, tvStationIds: [7] })).toEqual([
+      { tvstation_id: 7, tvstation: undefined, fixtures: [fixtures[1]] }
+    ]);
+  });
+});
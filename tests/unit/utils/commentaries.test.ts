@@ -0,0 +1,25 @@
+import { sortCommentaries } from '../../../src/utils/commentaries';
+
+describe('sortCommentaries', () => {
+  test('should order lines by minute, extra minute and order', () => {
+    const comments = [
+      { id: 1, minute: 90, extra_minute: 3, order: 1 },
+      { id: 2, minute: 12, extra_minute: null, order: 2 },
+      { id: 3, minute: 90, extra_minute: null, order: 1 },
+      { id: 4, minute: 12, extra_minute: null, order: 1 }
+    ];
+
+    expect(sortCommentaries(comments).map(comment => comment.id)).toEqual([4, 2, 3, 1]);
+  });
+
+  test('should not modify the input', () => {
+    const comments = [
+      { minute: 2, extra_minute: null, order: 1 },
+      { minute: 1, extra_minute: null, order: 1 }
+    ];
+
+    sortCommentaries(comments);
+
+    expect(comments[0].minute).toBe(2);
+  });
+});
@@ -1,4 +1,10 @@
-import { Poller, createLivescoresPoller, createTransfersPoller } from '../../../src/utils/polling';
+import {
+  Poller,
+  createCommentariesPoller,
+  createLivescoresPoller,
+  createTransfersPoller
+} from '../../../src/utils/polling';
+import { AbortError } from '../../../src/core/errors';
 import { PaginatedResponse } from '../../../src/types';
 
 describe('Polling Utilities', () => {
@@ -339,6 +345,59 @@ describe('Polling Utilities', () => {
       jest.advanceTimersByTime(5000);
       expect(fetchFunction).not.toHaveBeenCalled();
     });
+
+    test('should abort in-flight fetches on stop without reporting an error', async () => {
+      let fetchSignal: AbortSignal | undefined;
+      fetchFunction.mockImplementation(
+        (signal: AbortSignal) =>
+          new Promise((_resolve, reject) => {
+            fetchSignal = signal;
+            signal.addEventListener('abort', () => reject(new AbortError('aborted')));
+          })
+      );
+
+      const poller = new Poller(fetchFunction, { interval: 1000, onData, onError });
+
+      poller.start();
+      poller.stop();
+      await Promise.resolve();
+
+      expect(fetchSignal!.aborted).toBe(true);
+      expect(onData).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    test('should stop polling when the signal option is aborted', () => {
+      fetchFunction.mockResolvedValue({ data: 'test' });
+      const controller = new AbortController();
+
+      const poller = new Poller(fetchFunction, { interval: 1000, signal: controller.signal });
+
+      poller.start();
+      controller.abort();
+
+      expect(poller.isActive()).toBe(false);
+      fetchFunction.mockClear();
+      jest.advanceTimersByTime(5000);
+      expect(fetchFunction).not.toHaveBeenCalled();
+    });
+
+    test('should poll without a signal where AbortController is missing', async () => {
+      fetchFunction.mockResolvedValue({ data: 'test' });
+      const { AbortController } = global;
+      const poller = new Poller(fetchFunction, { interval: 1000, onData });
+      try {
+        (global as any).AbortController = undefined;
+        poller.start();
+      } finally {
+        global.AbortController = AbortController;
+      }
+      await Promise.resolve();
+      poller.stop();
+
+      expect(fetchFunction).toHaveBeenCalledWith(undefined);
+      expect(onData).toHaveBeenCalledWith({ data: 'test' });
+    });
   });
 
   describe('createLivescoresPoller', () => {
@@ -429,4 +488,46 @@ describe('Polling Utilities', () => {
       poller.stop();
     });
   });
+
+  describe('createCommentariesPoller', () => {
+    const line = (id: number, minute: number) =>
+      ({ id, minute, extra_minute: null, order: 1, comment: `Line ${id}` }) as any;
+
+    test('should only emit new commentary lines in match order', async () => {
+      const fetchFunction = jest.fn();
+      const onData = jest.fn();
+
+      fetchFunction
+        .mockResolvedValueOnce([line(1, 5)])
+        .mockResolvedValueOnce([line(3, 20), line(1, 5), line(2, 12)])
+        .mockResolvedValueOnce([line(1, 5), line(2, 12), line(3, 20)]);
+
+      const poller = createCommentariesPoller(fetchFunction, { onData });
+
+      poller.start();
+      await Promise.resolve();
+      jest.advanceTimersByTime(15000); // 15 seconds default
+      await Promise.resolve();
+      jest.advanceTimersByTime(15000);
+      await Promise.resolve();
+
+      expect(onData.mock.calls.map(call => call[0].map((c: any) => c.id))).toEqual([[1], [2, 3]]);
+
+      poller.stop();
+    });
+
+    test('should not emit when a fixture has no commentary yet', async () => {
+      const fetchFunction = jest.fn().mockResolvedValue([]);
+      const onData = jest.fn();
+
+      const poller = createCommentariesPoller(fetchFunction, { onData });
+
+      poller.start();
+      await Promise.resolve();
+
+      expect(onData).not.toHaveBeenCalled();
+
+      poller.stop();
+    });
+  });
 });
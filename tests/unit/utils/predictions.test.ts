@@ -0,0 +1,71 @@
+import { ValidationError } from '../../../src/core/errors';
+import { Prediction } from '../../../src/types';
+import {
+  overUnderProbabilities,
+  resultProbabilities,
+  toProbabilityMap
+} from '../../../src/utils/predictions';
+
+const prediction = (
+  id: number,
+  type_id: number,
+  predictions: Record<string, unknown>,
+  developer_name?: string
+): Prediction =>
+  ({
+    id,
+    fixture_id: 18535517,
+    type_id,
+    predictions,
+    type: developer_name ? { id: type_id, developer_name } : undefined
+  }) as Prediction;
+
+describe('Prediction utilities', () => {
+  const predictions = [
+    prediction(1, 237, { home: 45.6, draw: 24.3, away: 30.1 }),
+    prediction(2, 231, { yes: 58.2, no: 41.8 }),
+    prediction(3, 235, { yes: 52.4, no: 47.6 }),
+    prediction(4, 234, { yes: 30.5, no: 69.5 }, 'OVER_UNDER_3_5_PROBABILITY'),
+    prediction(5, 240, { scores: { '1-0': 10.2 } })
+  ];
+
+  test('should map the fulltime result probabilities', () => {
+    expect(resultProbabilities(predictions)).toEqual({ home: 45.6, draw: 24.3, away: 30.1 });
+  });
+
+  test('should key over/under probabilities by goal line', () => {
+    expect(overUnderProbabilities(predictions)).toEqual({
+      '2.5': { over: 52.4, under: 47.6 },
+      '3.5': { over: 30.5, under: 69.5 }
+    });
+  });
+
+  test('should build a probability map', () => {
+    const map = toProbabilityMap(predictions);
+
+    expect(map.result?.away).toBe(30.1);
+    expect(map.btts).toEqual({ yes: 58.2, no: 41.8 });
+    expect(Object.keys(map.overUnder)).toEqual(['2.5', '3.5']);
+  });
+
+  test('should return empty results when types are missing', () => {
+    expect(toProbabilityMap([])).toEqual({ result: undefined, btts: undefined, overUnder: {} });
+  });
+
+  test('should accept percentage strings', () => {
+    const result = resultProbabilities([
+      prediction(1, 237, { home: '45.6%', draw: '24.3%', away: '30.1%' })
+    ]);
+
+    expect(result).toEqual({ home: 45.6, draw: 24.3, away: 30.1 });
+  });
+
+  test('should reject missing or out-of-range probabilities', () => {
+    expect(() => resultProbabilities([prediction(1, 237, { home: 45.6, draw: 24.3 })])).toThrow(
+      ValidationError
+    );
+    expect(() => overUnderProbabilities([prediction(1, 235, { yes: 120, no: -20 })])).toThrow(
+      'Invalid probability "yes" in prediction 1: 120'
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { sidelinedOnDate } from '../../../src/utils/sidelined';
+import { ValidationError } from '../../../src/core/errors';
+
+describe('sidelinedOnDate', () => {
+  const records = [
+    { player_id: 1, start_date: '2024-01-01', end_date: '2024-01-13', completed: true },
+    { player_id: 2, start_date: '2024-01-10', end_date: null, completed: false },
+    { player_id: 3, start_date: '2023-11-01', end_date: null, completed: true },
+    { player_id: 4, start_date: '2024-01-14', end_date: null, completed: false }
+  ];
+
+  test('should include records active on the date', () => {
+    expect(sidelinedOnDate(records, '2024-01-13').map(r => r.player_id)).toEqual([1, 2]);
+  });
+
+  test('should treat start and end dates as inclusive', () => {
+    expect(sidelinedOnDate(records, '2024-01-14').map(r => r.player_id)).toEqual([2, 4]);
+  });
+
+  test('should skip completed records without an end date', () => {
+    expect(sidelinedOnDate(records, '2023-12-01')).toEqual([]);
+  });
+
+  test('should accept Date objects and datetime strings', () => {
+    const withTimes = [
+      { start_date: '2024-01-01 00:00:00', end_date: '2024-01-05 00:00:00', completed: true }
+    ];
+
+    expect(sidelinedOnDate(withTimes, new Date(2024, 0, 5))).toHaveLength(1);
+  });
+
+  test('should reject invalid dates', () => {
+    expect(() => sidelinedOnDate(records, '13/01/2024')).toThrow(ValidationError);
+  });
+});
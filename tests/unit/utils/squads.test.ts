@@ -0,0 +1,33 @@
+import { squadOnDate } from '../../../src/utils/squads';
+import { ValidationError } from '../../../src/core/errors';
+
+describe('squadOnDate', () => {
+  const members = [
+    { player_id: 1, start: '2020-07-01', end: null },
+    { player_id: 2, start: '2021-01-15', end: '2023-01-14' },
+    { player_id: 3, start: '2023-01-15', end: null },
+    { player_id: 4, start: null as unknown as string, end: '2022-06-30' }
+  ];
+
+  test('should include memberships active on the date', () => {
+    expect(squadOnDate(members, '2023-01-14').map(m => m.player_id)).toEqual([1, 2]);
+  });
+
+  test('should treat start and end dates as inclusive', () => {
+    expect(squadOnDate(members, '2023-01-15').map(m => m.player_id)).toEqual([1, 3]);
+  });
+
+  test('should treat missing start dates as open', () => {
+    expect(squadOnDate(members, '2019-01-01').map(m => m.player_id)).toEqual([4]);
+  });
+
+  test('should accept Date objects and datetime strings', () => {
+    const withTimes = [{ start: '2021-01-15 00:00:00', end: '2021-01-20 00:00:00' }];
+
+    expect(squadOnDate(withTimes, new Date(2021, 0, 20))).toHaveLength(1);
+  });
+
+  test('should reject invalid dates', () => {
+    expect(() => squadOnDate(members, '14/01/2023')).toThrow(ValidationError);
+  });
+});
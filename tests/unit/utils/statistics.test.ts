@@ -0,0 +1,35 @@
+import { PlayerStatisticType } from '../../../src/types';
+import { statisticsByType, topscorersByType } from '../../../src/utils/statistics';
+
+describe('statisticsByType', () => {
+  test('should index detail values by statistic type', () => {
+    const values = statisticsByType([
+      { id: 1, type_id: PlayerStatisticType.GOALS, value: { total: 12 } },
+      { id: 2, type_id: PlayerStatisticType.ASSISTS, value: { total: 4 } }
+    ]);
+
+    expect(values[PlayerStatisticType.GOALS]?.total).toBe(12);
+    expect(values[PlayerStatisticType.ASSISTS]?.total).toBe(4);
+    expect(values[PlayerStatisticType.SAVES]).toBeUndefined();
+  });
+});
+
+describe('topscorersByType', () => {
+  test('should group entries into leaderboards ordered by position', () => {
+    const entry = (id: number, type_id: number, position: number) => ({
+      id,
+      season_id: 1,
+      stage_id: null,
+      player_id: id,
+      participant_id: 1,
+      type_id,
+      position,
+      total: 10 - position
+    });
+
+    const boards = topscorersByType([entry(1, 208, 2), entry(2, 209, 1), entry(3, 208, 1)]);
+
+    expect(boards[PlayerStatisticType.GOALS]!.map(e => e.id)).toEqual([3, 1]);
+    expect(boards[PlayerStatisticType.ASSISTS]!.map(e => e.id)).toEqual([2]);
+  });
+});
@@ -197,13 +197,16 @@ replServer.context.team = async (id: number) => {
 };
 
 replServer.context.player = async (id: number) => {
-  const response = await client.players.byId(id).include(['team', 'country', 'position']).get();
+  const response = await client.players
+    .byId(id)
+    .include(['teams', 'country', 'position'])
+    .get();
   console.log(`${colors.magenta}Player: ${response.data.display_name}${colors.reset}`);
   return response;
 };
 
 replServer.context.fixture = async (id: number) => {
-  const response = await client.fixtures.byId(id).include(['localteam', 'visitorteam', 'league']).get();
+  const response = await client.fixtures.byId(id).include(['participants', 'league']).get();
   console.log(`${colors.magenta}Fixture: ${response.data.name}${colors.reset}`);
   return response;
 };
@@ -222,7 +225,7 @@ ${colors.cyan}${colors.bold}Example Queries:${colors.reset}
 
 ${colors.yellow}// Today's fixtures${colors.reset}
 const today = new Date().toISOString().split('T')[0]
-await client.fixtures.byDate(today).include(['localteam', 'visitorteam']).get()
+await client.fixtures.byDate(today).include(['participants']).get()
 
 ${colors.yellow}// Premier League teams${colors.reset}
 await client.teams.bySeason(19735).include(['country', 'venue']).get()
@@ -232,7 +235,7 @@ await client.players.search('Mohamed').filter('position_id', 27).limit(10).get()
 
 ${colors.yellow}// Complex includes${colors.reset}
 await client.fixtures.byId(18535517)
-  .include(['localteam.country', 'visitorteam.country', 'events.player', 'lineups.player'])
+  .include(['participants.country', 'events.player', 'lineups.player'])
   .get()
 
 ${colors.cyan}${colors.bold}Helper Functions:${colors.reset}
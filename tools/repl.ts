@@ -162,7 +162,7 @@ await teams.byId(1).include(['country', 'venue']).get()
 await players.search('Ronaldo').limit(10).get()
 
 ${colors.yellow}// With includes${colors.reset}
-await fixtures.byDate('2024-01-15').include(['localteam', 'visitorteam']).get()
+await fixtures.byDate('2024-01-15').include(['participants']).get()
 await leagues.byId(8).include(['country', 'seasons']).get()
 
 ${colors.yellow}// Complex queries${colors.reset}
@@ -172,11 +172,11 @@ await fixtures.headToHead(1, 14).include(['events', 'lineups']).limit(5).get()
 ${colors.yellow}// Even simpler - direct calls${colors.reset}
 await teams.search('Liverpool').get()
 await players.latest().limit(20).get()
-await livescores.inplay().include(['localteam', 'visitorteam']).get()
+await livescores.inplay().include(['participants']).get()
 
 ${colors.yellow}// Today's fixtures${colors.reset}
 const today = new Date().toISOString().split('T')[0]
-await fixtures.byDate(today).include(['localteam', 'visitorteam']).get()
+await fixtures.byDate(today).include(['participants']).get()
 
 ${colors.yellow}// Helper functions${colors.reset}
 pp(response)          // Pretty print full response